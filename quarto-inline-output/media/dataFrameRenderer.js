@@ -0,0 +1,217 @@
+// Notebook renderer for data frames sent by the R session: a paged table whose
+// columns sort on a header click and resize by dragging the header's edge.
+
+import { NUMERIC_TYPES, cell, valueCell } from './tableCells.js';
+
+const PAGE_SIZE = 10;
+
+const STYLE = `
+.quarto-df { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+.quarto-df table { border-collapse: collapse; }
+.quarto-df th, .quarto-df td {
+    padding: 2px 8px; border-bottom: 1px solid var(--vscode-editorWidget-border, rgba(128, 128, 128, 0.35));
+    overflow: hidden; text-overflow: ellipsis; white-space: nowrap;
+}
+.quarto-df th { position: relative; cursor: pointer; user-select: none; text-align: left; }
+.quarto-df th .type { display: block; font-weight: normal; opacity: 0.6; font-size: 0.85em; }
+.quarto-df th .resize { position: absolute; top: 0; right: 0; width: 5px; height: 100%; cursor: col-resize; }
+.quarto-df td.number { text-align: right; }
+.quarto-df td.na { opacity: 0.5; font-style: italic; }
+.quarto-df td.rowname { opacity: 0.7; }
+.quarto-df .footer { display: flex; gap: 8px; align-items: center; padding-top: 4px; opacity: 0.8; }
+.quarto-df button {
+    color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground);
+    border: none; padding: 1px 8px; cursor: pointer;
+}
+.quarto-df button:disabled { opacity: 0.4; cursor: default; }
+`;
+
+export function activate() {
+    return {
+        renderOutputItem(outputItem, element) {
+            element.replaceChildren();
+            const style = document.createElement('style');
+            style.textContent = STYLE;
+            element.appendChild(style);
+
+            const container = document.createElement('div');
+            container.className = 'quarto-df';
+            element.appendChild(container);
+            renderTable(container, outputItem.json());
+        }
+    };
+}
+
+function renderTable(container, table) {
+    const state = { page: 0, sortColumn: -1, sortDirection: 0, widths: [] };
+    const rowNumbers = table.rows.map((_, i) => i);
+
+    const render = () => {
+        container.replaceChildren();
+        const order = sortedRows(table, rowNumbers, state);
+        const pageCount = Math.max(1, Math.ceil(order.length / PAGE_SIZE));
+        state.page = Math.min(state.page, pageCount - 1);
+
+        const element = document.createElement('table');
+        element.appendChild(renderHeader(table, state, render));
+        applyWidths(element, state.widths);
+
+        const body = document.createElement('tbody');
+        for (const row of order.slice(state.page * PAGE_SIZE, (state.page + 1) * PAGE_SIZE)) {
+            const tr = document.createElement('tr');
+            if (table.rowNames) {
+                tr.appendChild(cell(table.rowNames[row], 'rowname'));
+            }
+            table.rows[row].forEach((value, column) => {
+                tr.appendChild(valueCell(value, table.columns[column].type));
+            });
+            body.appendChild(tr);
+        }
+        element.appendChild(body);
+        container.appendChild(element);
+        container.appendChild(renderFooter(table, state, pageCount, render));
+    };
+
+    render();
+}
+
+function renderHeader(table, state, render) {
+    const head = document.createElement('thead');
+    const tr = document.createElement('tr');
+    if (table.rowNames) {
+        tr.appendChild(document.createElement('th'));
+    }
+
+    table.columns.forEach((column, index) => {
+        const th = document.createElement('th');
+        const arrow = state.sortColumn === index ? (state.sortDirection > 0 ? ' ▲' : ' ▼') : '';
+        th.textContent = column.name + arrow;
+        th.title = `${column.name} <${column.type}>`;
+
+        const type = document.createElement('span');
+        type.className = 'type';
+        type.textContent = `<${column.type}>`;
+        th.appendChild(type);
+
+        // Clicking cycles ascending, descending, original order
+        th.addEventListener('click', () => {
+            if (state.sortColumn !== index) {
+                state.sortColumn = index;
+                state.sortDirection = 1;
+            } else if (state.sortDirection > 0) {
+                state.sortDirection = -1;
+            } else {
+                state.sortColumn = -1;
+                state.sortDirection = 0;
+            }
+            state.page = 0;
+            render();
+        });
+
+        const handle = document.createElement('div');
+        handle.className = 'resize';
+        handle.addEventListener('click', event => event.stopPropagation());
+        handle.addEventListener('mousedown', event => startResize(event, th, state.widths));
+        th.appendChild(handle);
+
+        tr.appendChild(th);
+    });
+
+    head.appendChild(tr);
+    return head;
+}
+
+// Widths are kept per header cell, so they survive sorting and paging
+function applyWidths(table, widths) {
+    if (widths.length === 0) {
+        return;
+    }
+    table.querySelectorAll('th').forEach((th, i) => {
+        th.style.width = `${widths[i]}px`;
+    });
+    table.style.tableLayout = 'fixed';
+    table.style.width = `${widths.reduce((sum, width) => sum + width, 0)}px`;
+}
+
+function startResize(event, th, widths) {
+    event.preventDefault();
+    event.stopPropagation();
+    const table = th.closest('table');
+    const headers = [...th.parentElement.children];
+    const index = headers.indexOf(th);
+    const startX = event.clientX;
+
+    // Fix every column at its current width before the first resize
+    if (widths.length === 0) {
+        headers.forEach((header, i) => {
+            widths[i] = header.offsetWidth;
+        });
+    }
+    const startWidth = widths[index];
+
+    const move = moveEvent => {
+        widths[index] = Math.max(30, startWidth + moveEvent.clientX - startX);
+        applyWidths(table, widths);
+    };
+    const up = () => {
+        document.removeEventListener('mousemove', move);
+        document.removeEventListener('mouseup', up);
+    };
+    document.addEventListener('mousemove', move);
+    document.addEventListener('mouseup', up);
+}
+
+function renderFooter(table, state, pageCount, render) {
+    const footer = document.createElement('div');
+    footer.className = 'footer';
+
+    const button = (label, page) => {
+        const element = document.createElement('button');
+        element.textContent = label;
+        element.disabled = page < 0 || page >= pageCount || page === state.page;
+        element.addEventListener('click', () => {
+            state.page = page;
+            render();
+        });
+        return element;
+    };
+
+    const first = state.page * PAGE_SIZE;
+    const shown = table.rows.length;
+    const summary = document.createElement('span');
+    summary.textContent = shown === 0
+        ? `0 rows × ${table.columns.length} columns`
+        : `Rows ${first + 1}–${Math.min(first + PAGE_SIZE, shown)} of ${table.nrow}` +
+            (shown < table.nrow ? ` (first ${shown} loaded)` : '') +
+            ` × ${table.columns.length} columns`;
+
+    footer.append(
+        button('«', 0),
+        button('‹', state.page - 1),
+        summary,
+        button('›', state.page + 1),
+        button('»', pageCount - 1)
+    );
+    return footer;
+}
+
+// Missing values always sort last
+function sortedRows(table, rowNumbers, state) {
+    if (state.sortColumn < 0) {
+        return rowNumbers;
+    }
+
+    const column = state.sortColumn;
+    const numeric = NUMERIC_TYPES.includes(table.columns[column].type);
+    return [...rowNumbers].sort((a, b) => {
+        const x = table.rows[a][column];
+        const y = table.rows[b][column];
+        if (x === null || y === null) {
+            return x === y ? 0 : x === null ? 1 : -1;
+        }
+        const compared = numeric || typeof x !== 'string'
+            ? Number(x) - Number(y)
+            : String(x).localeCompare(String(y), undefined, { numeric: true });
+        return compared * state.sortDirection;
+    });
+}
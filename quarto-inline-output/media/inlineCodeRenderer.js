@@ -0,0 +1,67 @@
+// Markdown-it extension for notebook markdown cells: replaces inline `r expr`
+// code spans with the values the extension evaluated in the R session.
+
+const INLINE_R = /^(?:r|\{r\})\s+([\s\S]*)$/;
+const results = new Map();
+
+export function activate(ctx) {
+    if (ctx.onDidReceiveMessage) {
+        ctx.onDidReceiveMessage(message => {
+            if (message && message.type === 'inlineResults') {
+                for (const [code, value] of Object.entries(message.results)) {
+                    results.set(code, value);
+                }
+                updateRenderedSpans();
+            }
+        });
+        ctx.postMessage({ type: 'requestInlineResults' });
+    }
+
+    return {
+        extendMarkdownIt(md) {
+            const defaultRender = md.renderer.rules.code_inline;
+
+            md.renderer.rules.code_inline = (tokens, idx, options, env, self) => {
+                const match = tokens[idx].content.match(INLINE_R);
+                if (!match || !match[1].trim()) {
+                    return defaultRender(tokens, idx, options, env, self);
+                }
+
+                const code = match[1].trim();
+                const value = results.get(code);
+                return `<code class="quarto-inline-r" data-quarto-inline="${escapeHtml(code)}" title="${escapeHtml(code)}">` +
+                    `${escapeHtml(value !== undefined ? value : tokens[idx].content)}</code>`;
+            };
+        }
+    };
+}
+
+// Markdown cells that were rendered before the results arrived are patched in place
+function updateRenderedSpans() {
+    for (const root of findRoots(document)) {
+        for (const element of root.querySelectorAll('code[data-quarto-inline]')) {
+            const value = results.get(element.getAttribute('data-quarto-inline'));
+            if (value !== undefined) {
+                element.textContent = value;
+            }
+        }
+    }
+}
+
+function findRoots(root) {
+    const roots = [root];
+    for (const element of root.querySelectorAll('*')) {
+        if (element.shadowRoot) {
+            roots.push(...findRoots(element.shadowRoot));
+        }
+    }
+    return roots;
+}
+
+function escapeHtml(text) {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,32 @@
+// Table cells for data frame values, shared by the notebook renderer and the
+// data viewer so both show values the same way.
+
+export const NUMERIC_TYPES = ['numeric', 'integer', 'double'];
+
+// Like R's print, seven significant digits for non-integers
+function formatNumber(value) {
+    return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(7)));
+}
+
+export function valueCell(value, type) {
+    if (value === null) {
+        return cell('NA', 'na');
+    }
+    if (typeof value === 'number') {
+        return cell(formatNumber(value), 'number');
+    }
+    if (typeof value === 'boolean') {
+        return cell(value ? 'TRUE' : 'FALSE');
+    }
+    return cell(value, NUMERIC_TYPES.includes(type) ? 'number' : undefined);
+}
+
+export function cell(text, className) {
+    const td = document.createElement('td');
+    td.textContent = text;
+    td.title = text;
+    if (className) {
+        td.className = className;
+    }
+    return td;
+}
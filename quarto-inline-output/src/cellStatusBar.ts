@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import { CellOutput } from './outputWatcher';
+import { CACHE_METADATA_KEY } from './outputCache';
+
+// Output metadata key holding the timing of the run that produced the outputs
+export const TIMING_METADATA_KEY = 'quartoTiming';
+
+export interface CellTiming {
+    duration: number; // milliseconds
+    endTime: number; // epoch milliseconds
+    memory?: number; // change in session memory, in MB
+}
+
+// Timing reported by the session's eval wrapper, or the wall-clock time measured
+// here for sessions that do not report it
+export function cellTiming(outputs: CellOutput[], wallClock: number, endTime: number = Date.now()): CellTiming {
+    const block = outputs.find(o => o.type === 'TIMING');
+    if (block) {
+        try {
+            const { elapsed, memory } = JSON.parse(block.content);
+            return { duration: Math.round(elapsed * 1000), endTime, memory };
+        } catch (e) {
+            console.error('Invalid timing block:', block.content, e);
+        }
+    }
+    return { duration: wallClock, endTime };
+}
+
+export function formatDuration(ms: number): string {
+    if (ms < 1000) {
+        return `${ms}ms`;
+    }
+    if (ms < 60000) {
+        return `${(ms / 1000).toFixed(1)}s`;
+    }
+    const minutes = Math.floor(ms / 60000);
+    return `${minutes}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+export function formatMemory(mb: number): string {
+    return `${mb >= 0 ? '+' : '−'}${Math.abs(mb).toFixed(1)} MB`;
+}
+
+// The timing of a cell: from this window's last run, or from the outputs'
+// metadata when they were restored from the cache
+export function getCellTiming(
+    cell: vscode.NotebookCell,
+    timings: WeakMap<vscode.NotebookCell, CellTiming>
+): CellTiming | undefined {
+    return timings.get(cell) ?? cell.outputs.find(o => o.metadata?.[TIMING_METADATA_KEY])?.metadata?.[TIMING_METADATA_KEY];
+}
+
+// Duration, finish time, memory change and cache origin under each code cell
+export class CellStatusBarProvider implements vscode.NotebookCellStatusBarItemProvider {
+    private _onDidChangeCellStatusBarItems = new vscode.EventEmitter<void>();
+    public readonly onDidChangeCellStatusBarItems = this._onDidChangeCellStatusBarItems.event;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private timings: WeakMap<vscode.NotebookCell, CellTiming>) {
+        this.disposables.push(
+            this._onDidChangeCellStatusBarItems,
+            vscode.notebooks.registerNotebookCellStatusBarItemProvider('quarto-notebook', this),
+            vscode.workspace.onDidChangeNotebookDocument(event => {
+                if (event.notebook.notebookType === 'quarto-notebook' && event.cellChanges.length > 0) {
+                    this._onDidChangeCellStatusBarItems.fire();
+                }
+            })
+        );
+    }
+
+    public provideCellStatusBarItems(cell: vscode.NotebookCell): vscode.NotebookCellStatusBarItem[] {
+        if (cell.kind !== vscode.NotebookCellKind.Code) {
+            return [];
+        }
+
+        const timing = getCellTiming(cell, this.timings);
+        if (!timing) {
+            return [];
+        }
+
+        const finished = new Date(timing.endTime);
+        const ranToday = finished.toDateString() === new Date().toDateString();
+        const cached = cell.outputs.some(o => o.metadata?.[CACHE_METADATA_KEY]?.restored);
+
+        const items: vscode.NotebookCellStatusBarItem[] = [];
+
+        const duration = new vscode.NotebookCellStatusBarItem(
+            `$(clock) ${formatDuration(timing.duration)}`,
+            vscode.NotebookCellStatusBarAlignment.Right
+        );
+        duration.tooltip = `Ran in ${formatDuration(timing.duration)}, finished ${finished.toLocaleString()}`;
+        items.push(duration);
+
+        const ranAt = new vscode.NotebookCellStatusBarItem(
+            ranToday ? finished.toLocaleTimeString() : finished.toLocaleDateString(),
+            vscode.NotebookCellStatusBarAlignment.Right
+        );
+        ranAt.tooltip = `Last run ${finished.toLocaleString()}`;
+        items.push(ranAt);
+
+        if (timing.memory !== undefined) {
+            const memory = new vscode.NotebookCellStatusBarItem(
+                `$(pulse) ${formatMemory(timing.memory)}`,
+                vscode.NotebookCellStatusBarAlignment.Right
+            );
+            memory.tooltip = 'Change in R session memory while the cell ran';
+            items.push(memory);
+        }
+
+        if (cached) {
+            const cache = new vscode.NotebookCellStatusBarItem('$(database) cached', vscode.NotebookCellStatusBarAlignment.Right);
+            cache.tooltip = 'Output restored from .quarto/inline-output, not produced in this session';
+            items.push(cache);
+        }
+
+        return items;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+// Total runtime and the slowest cells of a notebook; picking one reveals it
+export async function showRunSummary(
+    notebook: vscode.NotebookDocument,
+    timings: WeakMap<vscode.NotebookCell, CellTiming>
+): Promise<void> {
+    const timed = notebook.getCells()
+        .filter(cell => cell.kind === vscode.NotebookCellKind.Code)
+        .map(cell => ({ cell, timing: getCellTiming(cell, timings) }))
+        .filter((entry): entry is { cell: vscode.NotebookCell; timing: CellTiming } => entry.timing !== undefined)
+        .sort((a, b) => b.timing.duration - a.timing.duration);
+
+    if (timed.length === 0) {
+        vscode.window.showInformationMessage('No cell of this notebook has run yet');
+        return;
+    }
+
+    const total = timed.reduce((sum, { timing }) => sum + timing.duration, 0);
+    const picked = await vscode.window.showQuickPick(
+        timed.map(({ cell, timing }) => {
+            const label = cell.metadata?.chunkOptions?.label;
+            return {
+                label: `${formatDuration(timing.duration)}  ${label ?? `Cell ${cell.index + 1}`}`,
+                description: timing.memory !== undefined ? formatMemory(timing.memory) : undefined,
+                detail: cell.document.lineAt(0).text,
+                cell
+            };
+        }),
+        {
+            title: `Total runtime ${formatDuration(total)} across ${timed.length} cell(s); slowest first`,
+            placeHolder: 'Select a cell to reveal it'
+        }
+    );
+
+    const editor = vscode.window.visibleNotebookEditors.find(e => e.notebook === notebook);
+    if (picked && editor) {
+        const range = new vscode.NotebookRange(picked.cell.index, picked.cell.index + 1);
+        editor.selection = range;
+        editor.revealRange(range, vscode.NotebookEditorRevealType.InCenterIfOutsideViewport);
+    }
+}
@@ -1,70 +1,671 @@
+export type ChunkOptionValue = string | number | boolean | null | RExpression | ChunkOptionValue[];
+
+// An option computed by R (`fig.width=w` in the header, `!expr w` in YAML),
+// kept as source so it is written back unquoted
+export interface RExpression {
+    expr: string;
+}
+
 export interface CodeChunk {
     language: string;
     code: string;
     startLine: number;
     endLine: number;
     options?: Record<string, any>;
+    // Option keys that were written as `#| key: value` lines inside the chunk
+    hashPipeKeys?: string[];
+    // Opening fence (e.g. ``` or ~~~~) and the indentation it was written with
+    fence?: string;
+    indent?: number;
+}
+
+export interface InlineExpression {
+    language: string;
+    code: string;
+    line: number;
+    // Columns of the whole code span, backticks included
+    start: number;
+    end: number;
+}
+
+export interface Heading {
+    line: number;
+    level: number;
+    text: string;
+}
+
+// Execution options of a chunk once document and default values are applied
+export interface ExecutionOptions {
+    eval: boolean;
+    echo: boolean;
+    include: boolean;
+    // 'asis' renders text output as Markdown
+    output: boolean | 'asis';
+    // markup, asis, hide or hold
+    results: string;
+    message: boolean;
+    warning: boolean;
+    error: boolean;
+    // Figure size in inches and resolution in dots per inch
+    figWidth: number;
+    figHeight: number;
+    figDpi: number;
+    // png, svg or retina (png at twice the resolution)
+    figFormat: string;
+    // One caption, or one per figure
+    figCap?: string | string[];
+}
+
+// Execution options set in the YAML front matter
+export type DocumentOptions = Partial<ExecutionOptions>;
+
+interface FencedBlock {
+    startLine: number;
+    // -1 when the fence is never closed
+    endLine: number;
+    fence: string;
+    indent: number;
+    info: string;
+}
+
+export interface ParseDiagnostic {
+    line: number;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+export interface ParseResult {
+    chunks: CodeChunk[];
+    diagnostics: ParseDiagnostic[];
+}
+
+const HASH_PIPE_PREFIX = /^#\|\s?(.*?)\r?$/;
+
+// CommonMark fences: up to three spaces, then three or more backticks or tildes
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})(.*?)\r?$/;
+
+// Executable chunk info string: {r}, {r label}, {r, echo=FALSE}, {python3}.
+// Display-only blocks (```r, ```{.r}, ```{{r}}) do not match.
+const EXECUTABLE_INFO = /^\{([A-Za-z][\w.-]*)(?:[\s,]+(.*?))?\s*\}\s*$/;
+
+const INLINE_R = /^(?:r|\{r\})\s+([\s\S]*)$/;
+
+const DEFAULT_EXECUTION_OPTIONS: ExecutionOptions = {
+    eval: true,
+    echo: true,
+    include: true,
+    output: true,
+    results: 'markup',
+    message: true,
+    warning: true,
+    error: false,
+    figWidth: 7,
+    figHeight: 5,
+    figDpi: 96,
+    figFormat: 'png'
+};
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+
+// Lines without their terminators, LF or CRLF
+export function splitLines(content: string): string[] {
+    return content.split(/\r?\n/);
 }
 
 export function parseChunks(content: string): CodeChunk[] {
+    return parseDocument(content).chunks;
+}
+
+export function parseDocument(content: string): ParseResult {
     const chunks: CodeChunk[] = [];
-    const lines = content.split('\n');
+    const diagnostics: ParseDiagnostic[] = [];
+    const lines = splitLines(content);
 
-    let inChunk = false;
-    let currentChunk: Partial<CodeChunk> | null = null;
-    let chunkLines: string[] = [];
+    for (const block of scanFences(lines)) {
+        const executable = block.info.match(EXECUTABLE_INFO);
 
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-
-        // Match chunk start: ```{language}
-        const startMatch = line.match(/^```\{(\w+)(?:\s+(.+))?\}/);
-        if (startMatch && !inChunk) {
-            inChunk = true;
-            currentChunk = {
-                language: startMatch[1],
-                startLine: i,
-                options: parseChunkOptions(startMatch[2])
-            };
-            chunkLines = [];
+        if (block.endLine < 0) {
+            // Per CommonMark the block runs to the end of the document
+            diagnostics.push({
+                line: block.startLine,
+                message: executable
+                    ? `Unterminated code chunk: missing closing ${block.fence}`
+                    : `Unterminated code block: missing closing ${block.fence}; the rest of the document is treated as code`,
+                severity: executable ? 'error' : 'warning'
+            });
+            continue;
+        }
+
+        if (!executable) {
+            continue;
+        }
+
+        const body = lines
+            .slice(block.startLine + 1, block.endLine)
+            .map(line => stripIndent(line, block.indent));
+        const { options, body: code } = extractHashPipeOptions(body);
+        const hashPipeKeys = Object.keys(options);
+
+        const chunk: CodeChunk = {
+            language: executable[1],
+            code: code.join('\n'),
+            startLine: block.startLine,
+            endLine: block.endLine,
+            // Hash-pipe options take precedence over the header, as in Quarto
+            options: { ...parseChunkOptions(executable[2]), ...options },
+            fence: block.fence,
+            indent: block.indent
+        };
+        if (hashPipeKeys.length > 0) {
+            chunk.hashPipeKeys = hashPipeKeys;
+        }
+        chunks.push(chunk);
+    }
+
+    return { chunks, diagnostics };
+}
+
+// Find inline `r expr` (knitr) and `{r} expr` (Quarto) code spans outside code blocks
+export function findInlineExpressions(content: string): InlineExpression[] {
+    const expressions: InlineExpression[] = [];
+    const lines = splitLines(content);
+    const blocks = scanFences(lines);
+
+    for (let line = 0; line < lines.length; line++) {
+        const block = blocks.find(b => line >= b.startLine && (b.endLine < 0 || line <= b.endLine));
+        if (block) {
+            line = block.endLine < 0 ? lines.length : block.endLine;
+            continue;
+        }
+
+        for (const span of findCodeSpans(lines[line])) {
+            const match = span.content.match(INLINE_R);
+            if (match && match[1].trim()) {
+                expressions.push({
+                    language: 'r',
+                    code: match[1].trim(),
+                    line,
+                    start: span.start,
+                    end: span.end
+                });
+            }
+        }
+    }
+
+    return expressions;
+}
+
+// ATX headings (## Title) outside code blocks and the YAML front matter
+export function findHeadings(content: string): Heading[] {
+    const headings: Heading[] = [];
+    const lines = splitLines(content);
+    const blocks = scanFences(lines);
+
+    let line = 0;
+    if (lines[0]?.trim() === '---') {
+        const end = lines.findIndex((l, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(l));
+        line = end < 0 ? 0 : end + 1;
+    }
+
+    for (; line < lines.length; line++) {
+        const block = blocks.find(b => line >= b.startLine && (b.endLine < 0 || line <= b.endLine));
+        if (block) {
+            line = block.endLine < 0 ? lines.length : block.endLine;
             continue;
         }
 
-        // Match chunk end: ```
-        if (line.trim() === '```' && inChunk && currentChunk) {
-            currentChunk.code = chunkLines.join('\n');
-            currentChunk.endLine = i;
-            chunks.push(currentChunk as CodeChunk);
-            inChunk = false;
-            currentChunk = null;
-            chunkLines = [];
+        const match = lines[line].match(ATX_HEADING);
+        if (match) {
+            headings.push({ line, level: match[1].length, text: (match[2] ?? '').trim() });
+        }
+    }
+
+    return headings;
+}
+
+// Lines [start, end) of the section under the last heading at or above line, up to
+// the next heading of the same or a higher level. Lines before the first heading
+// form a section of their own.
+export function findSection(headings: Heading[], line: number): { start: number; end: number } {
+    let current = -1;
+    while (current + 1 < headings.length && headings[current + 1].line <= line) {
+        current++;
+    }
+
+    if (current < 0) {
+        return { start: 0, end: headings.length > 0 ? headings[0].line : Infinity };
+    }
+
+    const { level } = headings[current];
+    const next = headings.slice(current + 1).find(h => h.level <= level);
+    return { start: headings[current].line, end: next ? next.line : Infinity };
+}
+
+// Chunk options override the document's, which override the defaults
+export function resolveExecutionOptions(
+    chunkOptions: Record<string, any> | undefined,
+    documentOptions: DocumentOptions
+): ExecutionOptions {
+    return { ...DEFAULT_EXECUTION_OPTIONS, ...documentOptions, ...pickExecutionOptions(chunkOptions ?? {}) };
+}
+
+// Options set at the top level of the front matter, under `format: html:` or under `execute:`
+export function parseFrontMatterOptions(content: string): DocumentOptions {
+    const yamlMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+    if (!yamlMatch) {
+        return {};
+    }
+
+    const isMapping = (value: unknown): value is Record<string, any> =>
+        typeof value === 'object' && value !== null && !Array.isArray(value);
+
+    const yaml = parseYamlOptions(splitLines(yamlMatch[1]));
+    const html = isMapping(yaml.format) && isMapping(yaml.format.html) ? yaml.format.html : {};
+    const execute = isMapping(yaml.execute) ? yaml.execute : {};
+    return pickExecutionOptions({ ...yaml, ...html, ...execute });
+}
+
+// Normalise the execution options among header, hash-pipe or YAML options.
+// knitr accepts expression indices for eval and echo; anything but false runs or shows.
+function pickExecutionOptions(options: Record<string, any>): DocumentOptions {
+    const picked: DocumentOptions = {};
+
+    for (const key of ['eval', 'echo', 'include', 'message', 'warning'] as const) {
+        if (options[key] !== undefined && options[key] !== null) {
+            picked[key] = options[key] !== false;
+        }
+    }
+    if (options.error !== undefined && options.error !== null) {
+        picked.error = options.error === true;
+    }
+    if (options.output !== undefined && options.output !== null) {
+        picked.output = options.output === 'asis' ? 'asis' : options.output !== false;
+    }
+    if (options.results !== undefined && options.results !== null) {
+        picked.results = options.results === false ? 'hide' : String(options.results);
+    }
+
+    // Figure options, Quarto (fig-width) or knitr (fig.width, dpi, dev) style
+    const knitr: Record<string, string> = { dpi: 'dpi', format: 'dev' };
+    const figure = (key: string) => options[`fig-${key}`] ?? options[`fig.${key}`] ?? options[knitr[key]];
+    for (const [key, field] of [['width', 'figWidth'], ['height', 'figHeight'], ['dpi', 'figDpi']] as const) {
+        if (typeof figure(key) === 'number' && figure(key) > 0) {
+            picked[field] = figure(key);
+        }
+    }
+    if (['png', 'svg', 'retina'].includes(figure('format'))) {
+        picked.figFormat = figure('format');
+    }
+    if (typeof figure('cap') === 'string' || Array.isArray(figure('cap'))) {
+        // Captions computed by R are not known before the chunk runs
+        picked.figCap = Array.isArray(figure('cap'))
+            ? figure('cap').map((cap: ChunkOptionValue) => isRExpression(cap) ? '' : String(cap))
+            : figure('cap');
+    }
+
+    return picked;
+}
+
+function scanFences(lines: string[]): FencedBlock[] {
+    const blocks: FencedBlock[] = [];
+
+    let i = 0;
+    while (i < lines.length) {
+        const open = lines[i].match(FENCE_OPEN);
+        if (!open) {
+            i++;
+            continue;
+        }
+
+        const [, indentText, fence, rawInfo] = open;
+        const info = rawInfo.trim();
+
+        // Backtick fences may not have backticks in their info string
+        if (fence[0] === '`' && info.includes('`')) {
+            i++;
+            continue;
+        }
+
+        const endLine = findClosingFence(lines, i + 1, fence);
+        blocks.push({ startLine: i, endLine, fence, indent: indentText.length, info });
+
+        if (endLine < 0) {
+            break;
+        }
+        i = endLine + 1;
+    }
+
+    return blocks;
+}
+
+// CommonMark code spans: a backtick run closed by a run of the same length
+function findCodeSpans(line: string): { content: string; start: number; end: number }[] {
+    const spans: { content: string; start: number; end: number }[] = [];
+    const runs = [...line.matchAll(/`+/g)];
+
+    for (let i = 0; i < runs.length; i++) {
+        const open = runs[i];
+        const close = runs.slice(i + 1).findIndex(r => r[0].length === open[0].length);
+        if (close < 0) {
             continue;
         }
 
-        // Collect chunk content
-        if (inChunk) {
-            chunkLines.push(line);
+        const closeRun = runs[i + 1 + close];
+        const contentStart = open.index! + open[0].length;
+        spans.push({
+            content: line.slice(contentStart, closeRun.index!),
+            start: open.index!,
+            end: closeRun.index! + closeRun[0].length
+        });
+        i += 1 + close;
+    }
+
+    return spans;
+}
+
+// A closing fence uses the same character, is at least as long and has no info string
+function findClosingFence(lines: string[], from: number, fence: string): number {
+    const close = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}\\s*$`);
+
+    for (let i = from; i < lines.length; i++) {
+        if (close.test(lines[i])) {
+            return i;
         }
     }
 
-    return chunks;
+    return -1;
 }
 
-function parseChunkOptions(optionsString?: string): Record<string, any> {
+// Content lines of an indented fence lose up to the fence's own indentation
+function stripIndent(line: string, indent: number): string {
+    let n = 0;
+    while (n < indent && line[n] === ' ') {
+        n++;
+    }
+    return line.slice(n);
+}
+
+// Parse knitr-style header options: `label, key=value, key=c(1, 2)`
+export function parseChunkOptions(optionsString?: string): Record<string, any> {
     if (!optionsString) {
         return {};
     }
 
-    // Basic option parsing - can be enhanced later
     const options: Record<string, any> = {};
-    const pairs = optionsString.split(',');
+    const parts = splitTopLevel(optionsString, ',');
+
+    parts.forEach((part, index) => {
+        const eq = findTopLevel(part, '=');
+        if (eq < 0) {
+            // A bare first argument is the chunk label
+            if (index === 0 && part) {
+                options.label = isQuoted(part) ? unquote(part) : part;
+            }
+            return;
+        }
 
-    for (const pair of pairs) {
-        const [key, value] = pair.split('=').map(s => s.trim());
+        const key = part.slice(0, eq).trim();
+        const value = part.slice(eq + 1).trim();
         if (key && value) {
-            options[key] = value;
+            options[key] = parseRValue(value);
+        }
+    });
+
+    return options;
+}
+
+// Split the leading `#|` lines off a chunk body and parse them as YAML
+export function extractHashPipeOptions(lines: string[]): { options: Record<string, any>; body: string[] } {
+    const yamlLines: string[] = [];
+    let i = 0;
+
+    for (; i < lines.length; i++) {
+        const match = lines[i].match(HASH_PIPE_PREFIX);
+        if (!match) {
+            break;
+        }
+        yamlLines.push(match[1]);
+    }
+
+    return {
+        options: parseYamlOptions(yamlLines.length > 0 ? dedent(yamlLines) : yamlLines),
+        body: lines.slice(i)
+    };
+}
+
+// Minimal YAML reader for chunk options: scalars, flow sequences,
+// block sequences, nested mappings and `|` / `>` block scalars
+export function parseYamlOptions(lines: string[]): Record<string, any> {
+    const options: Record<string, any> = {};
+
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(/^([\w.-]+)\s*:(?:\s+(.*?))?\s*$/);
+        if (!match) {
+            continue;
+        }
+
+        const key = match[1];
+        const rawValue = (match[2] ?? '').trim();
+
+        // Collect the indented continuation lines that belong to this key
+        const nested: string[] = [];
+        while (i + 1 < lines.length && /^\s+\S/.test(lines[i + 1])) {
+            nested.push(lines[++i]);
+        }
+
+        if (rawValue === '|' || rawValue === '>') {
+            const text = dedent(nested);
+            options[key] = rawValue === '|' ? text.join('\n') : text.join(' ');
+        } else if (rawValue === '' && nested.length > 0 && nested[0].trim().startsWith('-')) {
+            options[key] = nested
+                .map(line => line.trim())
+                .filter(line => line.startsWith('-'))
+                .map(line => parseYamlScalar(line.slice(1).trim()));
+        } else if (rawValue === '' && nested.length > 0) {
+            // Nested mapping, e.g. execute: in the front matter
+            options[key] = parseYamlOptions(dedent(nested));
+        } else {
+            options[key] = parseYamlValue(rawValue);
         }
     }
 
     return options;
 }
+
+export function formatHeaderOptions(options: Record<string, any>): string {
+    const parts: string[] = [];
+
+    for (const [key, value] of Object.entries(options)) {
+        if (key === 'label' && typeof value === 'string') {
+            parts.unshift(value);
+        } else {
+            parts.push(`${key}=${formatRValue(value)}`);
+        }
+    }
+
+    return parts.join(', ');
+}
+
+export function formatHashPipeOptions(options: Record<string, any>): string[] {
+    return Object.entries(options).map(([key, value]) => `#| ${key}: ${formatYamlValue(value)}`);
+}
+
+function parseRValue(text: string): ChunkOptionValue {
+    const value = text.trim();
+
+    if (value === 'TRUE' || value === 'T') {
+        return true;
+    }
+    if (value === 'FALSE' || value === 'F') {
+        return false;
+    }
+    if (value === 'NULL') {
+        return null;
+    }
+    if (isNumber(value)) {
+        return Number(value);
+    }
+    if (isQuoted(value)) {
+        return unquote(value);
+    }
+
+    const vector = value.match(/^c\((.*)\)$/s);
+    if (vector) {
+        return splitTopLevel(vector[1], ',').filter(Boolean).map(parseRValue);
+    }
+
+    // Arbitrary R expression - keep the source text
+    return { expr: value };
+}
+
+function parseYamlValue(text: string): ChunkOptionValue {
+    if (text.startsWith('[') && text.endsWith(']')) {
+        return splitTopLevel(text.slice(1, -1), ',').filter(Boolean).map(parseYamlScalar);
+    }
+    return parseYamlScalar(text);
+}
+
+function parseYamlScalar(text: string): ChunkOptionValue {
+    const value = stripYamlComment(text).trim();
+
+    if (value === 'true') {
+        return true;
+    }
+    if (value === 'false') {
+        return false;
+    }
+    if (value === '' || value === 'null' || value === '~') {
+        return null;
+    }
+    if (isNumber(value)) {
+        return Number(value);
+    }
+    if (isQuoted(value)) {
+        return unquote(value);
+    }
+    if (value.startsWith('!expr ')) {
+        return { expr: value.slice('!expr '.length).trim() };
+    }
+    return value;
+}
+
+function formatRValue(value: ChunkOptionValue): string {
+    if (value === true) {
+        return 'TRUE';
+    }
+    if (value === false) {
+        return 'FALSE';
+    }
+    if (value === null) {
+        return 'NULL';
+    }
+    if (Array.isArray(value)) {
+        return `c(${value.map(formatRValue).join(', ')})`;
+    }
+    if (typeof value === 'number') {
+        return String(value);
+    }
+    if (isRExpression(value)) {
+        return value.expr;
+    }
+    return JSON.stringify(value);
+}
+
+function formatYamlValue(value: ChunkOptionValue): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(formatYamlValue).join(', ')}]`;
+    }
+    if (isRExpression(value)) {
+        return `!expr ${value.expr}`;
+    }
+    if (typeof value !== 'string') {
+        return String(value);
+    }
+
+    // Quote strings that would otherwise read back as another type
+    const needsQuotes = value === '' ||
+        parseYamlScalar(value) !== value ||
+        /^[\s[\]{}&*!|>'"%@`,#-]|[:#]\s|\s$/.test(value);
+    return needsQuotes ? JSON.stringify(value) : value;
+}
+
+export function isRExpression(value: unknown): value is RExpression {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+        typeof (value as RExpression).expr === 'string';
+}
+
+function stripYamlComment(text: string): string {
+    if (isQuoted(text.trim())) {
+        return text;
+    }
+    const index = text.search(/\s#/);
+    return index >= 0 ? text.slice(0, index) : text;
+}
+
+function dedent(lines: string[]): string[] {
+    const indent = Math.min(...lines.map(line => line.match(/^\s*/)![0].length));
+    return lines.map(line => line.slice(indent));
+}
+
+function isNumber(value: string): boolean {
+    return /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value);
+}
+
+function isQuoted(value: string): boolean {
+    return value.length >= 2 &&
+        (value[0] === '"' || value[0] === "'") &&
+        value[value.length - 1] === value[0];
+}
+
+function unquote(value: string): string {
+    const inner = value.slice(1, -1);
+    if (value[0] === "'") {
+        return inner.replace(/\\'/g, "'").replace(/''/g, "'");
+    }
+    return inner.replace(/\\(["\\])/g, '$1').replace(/\\n/g, '\n');
+}
+
+// Split on a separator that is not nested inside quotes or brackets
+function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let start = 0;
+    let index = findTopLevel(text, separator);
+
+    while (index >= 0) {
+        parts.push(text.slice(start, start + index).trim());
+        start += index + 1;
+        index = findTopLevel(text.slice(start), separator);
+    }
+    parts.push(text.slice(start).trim());
+
+    return parts;
+}
+
+function findTopLevel(text: string, char: string): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quote) {
+            if (c === '\\') {
+                i++;
+            } else if (c === quote) {
+                quote = null;
+            }
+        } else if (c === '"' || c === "'") {
+            quote = c;
+        } else if (c === '(' || c === '[' || c === '{') {
+            depth++;
+        } else if (c === ')' || c === ']' || c === '}') {
+            depth--;
+        } else if (c === char && depth === 0) {
+            return i;
+        }
+    }
+
+    return -1;
+}
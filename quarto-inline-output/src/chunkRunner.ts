@@ -0,0 +1,220 @@
+import * as vscode from 'vscode';
+import { CodeChunk, ExecutionOptions, parseChunks, findHeadings, findSection, parseFrontMatterOptions, resolveExecutionOptions } from './chunkParser';
+import { QuartoNotebookController, SUPPORTED_LANGUAGES } from './notebookController';
+import { CellOutput, visibleOutputs } from './outputWatcher';
+import { DecorationManager } from './decorationManager';
+
+export type RunScope = 'all' | 'above' | 'below' | 'section';
+
+// Runs a group of chunks relative to a position, in a notebook or a text editor
+export class ChunkRunner {
+    constructor(private controller: QuartoNotebookController, private decorations: DecorationManager) {}
+
+    // Run the chunk of a code lens, else the one under the cursor, and show its
+    // result after the chunk
+    public async runChunk(chunk?: CodeChunk): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor');
+            return;
+        }
+
+        // Cmd/Ctrl+Enter in a notebook cell of a .qmd runs the cell
+        if (editor.document.uri.scheme === 'vscode-notebook-cell') {
+            await vscode.commands.executeCommand('notebook.cell.execute');
+            return;
+        }
+
+        // The code lens's chunk may be from before the last edit: look it up again
+        const document = editor.document;
+        const text = document.getText();
+        const line = chunk?.startLine ?? editor.selection.active.line;
+        const target = parseChunks(text).find(c => c.startLine <= line && line <= c.endLine);
+        if (!target) {
+            vscode.window.showInformationMessage('No chunk at the cursor');
+            return;
+        }
+        if (!SUPPORTED_LANGUAGES.includes(target.language)) {
+            vscode.window.showErrorMessage(`Language ${target.language} not yet supported`);
+            return;
+        }
+
+        const options = resolveExecutionOptions(target.options, parseFrontMatterOptions(text));
+        if (!options.eval) {
+            this.markNotEvaluated(document, target);
+            return;
+        }
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Running chunk on line ${target.startLine + 1}`,
+            cancellable: true
+        }, (progress, token) => this.execute(document, target, options, token));
+    }
+
+    // Without a document, the active notebook or text editor and its cursor are used
+    public async run(scope: RunScope, uri?: vscode.Uri, line?: number): Promise<void> {
+        const notebookEditor = vscode.window.activeNotebookEditor;
+        if (!uri && notebookEditor?.notebook.notebookType === 'quarto-notebook') {
+            await this.runInNotebook(notebookEditor, scope);
+            return;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        const document = uri ? await vscode.workspace.openTextDocument(uri) : editor?.document;
+        if (!document) {
+            vscode.window.showErrorMessage('No active editor');
+            return;
+        }
+
+        await this.runInDocument(document, scope, line ?? editor?.selection.active.line ?? 0);
+    }
+
+    private async runInNotebook(editor: vscode.NotebookEditor, scope: RunScope): Promise<void> {
+        const notebook = editor.notebook;
+        const index = editor.selection.start;
+
+        let start = 0;
+        let end = notebook.cellCount;
+        if (scope === 'above') {
+            end = index;
+        } else if (scope === 'below') {
+            start = index;
+        } else if (scope === 'section') {
+            // Headings are positioned by the index of the markdown cell they are in
+            const headings = notebook.getCells()
+                .filter(cell => cell.kind === vscode.NotebookCellKind.Markup)
+                .flatMap(cell => findHeadings(cell.document.getText()).map(h => ({ ...h, line: cell.index })));
+            const section = findSection(headings, index);
+            start = section.start;
+            end = Math.min(section.end, notebook.cellCount);
+        }
+
+        const hasCode = notebook.getCells(new vscode.NotebookRange(start, end))
+            .some(cell => cell.kind === vscode.NotebookCellKind.Code);
+        if (!hasCode) {
+            vscode.window.showInformationMessage('No cells to run');
+            return;
+        }
+
+        // Goes through the selected controller, which runs the range as one batch
+        await vscode.commands.executeCommand('notebook.cell.execute', {
+            ranges: [{ start, end }],
+            document: notebook.uri
+        });
+    }
+
+    private async runInDocument(document: vscode.TextDocument, scope: RunScope, line: number): Promise<void> {
+        const text = document.getText();
+        let chunks = parseChunks(text).filter(chunk => SUPPORTED_LANGUAGES.includes(chunk.language));
+
+        if (scope === 'above') {
+            chunks = chunks.filter(chunk => chunk.endLine < line);
+        } else if (scope === 'below') {
+            chunks = chunks.filter(chunk => chunk.endLine >= line);
+        } else if (scope === 'section') {
+            const { start, end } = findSection(findHeadings(text), line);
+            chunks = chunks.filter(chunk => chunk.startLine >= start && chunk.startLine < end);
+        }
+
+        if (chunks.length === 0) {
+            vscode.window.showInformationMessage('No chunks to run');
+            return;
+        }
+
+        const documentOptions = parseFrontMatterOptions(text);
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Running chunks',
+            cancellable: true
+        }, async (progress, token) => {
+            for (const [i, chunk] of chunks.entries()) {
+                if (token.isCancellationRequested) {
+                    return;
+                }
+                progress.report({
+                    message: `${i + 1}/${chunks.length} (line ${chunk.startLine + 1})`,
+                    increment: 100 / chunks.length
+                });
+
+                const options = resolveExecutionOptions(chunk.options, documentOptions);
+                if (!options.eval) {
+                    this.markNotEvaluated(document, chunk);
+                    continue;
+                }
+
+                const outputs = await this.execute(document, chunk, options, token);
+                if (outputs.some(o => o.type === 'INTERRUPTED')) {
+                    return;
+                }
+                const error = outputs.find(o => o.type === 'ERROR')?.content;
+
+                // Stop at the first failing chunk unless the chunk or document sets error: true
+                const remaining = chunks.length - i - 1;
+                if (error !== undefined && remaining > 0 && !options.error) {
+                    this.reportStop(document, chunk, error, remaining);
+                    return;
+                }
+            }
+        });
+    }
+
+    // Skipped chunks say so instead of keeping the output of an earlier run
+    private markNotEvaluated(document: vscode.TextDocument, chunk: CodeChunk): void {
+        this.decorations.setChunkOutput(document, chunk.endLine, [
+            { type: 'MESSAGE', content: 'Not evaluated (eval: false)', cellId: '' }
+        ]);
+    }
+
+    // Run a chunk in the document's session, record it in the session log and
+    // show what it printed after the chunk. A chunk that failed to start has its
+    // error as output.
+    private async execute(
+        document: vscode.TextDocument,
+        chunk: CodeChunk,
+        options: ExecutionOptions,
+        token: vscode.CancellationToken
+    ): Promise<CellOutput[]> {
+        const order = this.controller.nextExecutionOrder(document.uri);
+        const timestamp = Date.now();
+
+        let outputs: CellOutput[];
+        try {
+            outputs = await this.controller.evaluate(document.uri, chunk.code, options, chunk.language, token);
+        } catch (e) {
+            outputs = [{ type: 'ERROR', content: e instanceof Error ? e.message : String(e), cellId: '' }];
+        }
+
+        const interrupted = outputs.some(o => o.type === 'INTERRUPTED');
+        this.controller.executionLog.record(document.uri, {
+            order,
+            language: chunk.language,
+            code: chunk.code,
+            label: chunk.options?.label,
+            timestamp,
+            success: interrupted ? undefined : !outputs.some(o => o.type === 'ERROR')
+        });
+
+        this.decorations.setChunkOutput(document, chunk.endLine, visibleOutputs(outputs, options));
+        return outputs;
+    }
+
+    private async reportStop(document: vscode.TextDocument, chunk: CodeChunk, error: string, skipped: number): Promise<void> {
+        const label = chunk.options?.label;
+        const name = label ? `chunk '${label}' (line ${chunk.startLine + 1})` : `the chunk on line ${chunk.startLine + 1}`;
+
+        const choice = await vscode.window.showWarningMessage(
+            `Run stopped at ${name} after an error: ${error.split('\n')[0]}. ` +
+            `${skipped} chunk(s) were not run. Set error: true on the chunk or document to run past errors.`,
+            'Go to Chunk'
+        );
+
+        if (choice === 'Go to Chunk') {
+            const editor = await vscode.window.showTextDocument(document);
+            const position = new vscode.Position(chunk.startLine, 0);
+            editor.selection = new vscode.Selection(position, position);
+            editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        }
+    }
+}
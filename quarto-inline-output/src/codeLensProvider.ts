@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { parseChunks } from './chunkParser';
+import { parseChunks, findHeadings, findSection } from './chunkParser';
 
 export class QuartoCodeLensProvider implements vscode.CodeLensProvider {
     private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
@@ -16,7 +16,32 @@ export class QuartoCodeLensProvider implements vscode.CodeLensProvider {
             return codeLenses;
         }
 
-        const chunks = parseChunks(document.getText());
+        const text = document.getText();
+        const chunks = parseChunks(text);
+        const uri = document.uri;
+
+        if (chunks.length > 0) {
+            codeLenses.push(new vscode.CodeLens(new vscode.Range(0, 0, 0, 0), {
+                title: '▶ Run All',
+                command: 'quarto-inline-output.runAll',
+                arguments: [uri, 0]
+            }));
+        }
+
+        // "Run Section" on every heading with chunks under it
+        const headings = findHeadings(text);
+        for (const heading of headings) {
+            const { start, end } = findSection(headings, heading.line);
+            if (!chunks.some(chunk => chunk.startLine >= start && chunk.startLine < end)) {
+                continue;
+            }
+
+            codeLenses.push(new vscode.CodeLens(new vscode.Range(heading.line, 0, heading.line, 0), {
+                title: '▶ Run Section',
+                command: 'quarto-inline-output.runSection',
+                arguments: [uri, heading.line]
+            }));
+        }
 
         for (const chunk of chunks) {
             // Create "Run" code lens at the start of each chunk
@@ -28,7 +53,19 @@ export class QuartoCodeLensProvider implements vscode.CodeLensProvider {
                 arguments: [chunk]
             };
 
-            codeLenses.push(new vscode.CodeLens(range, runCommand));
+            codeLenses.push(
+                new vscode.CodeLens(range, runCommand),
+                new vscode.CodeLens(range, {
+                    title: 'Run Above',
+                    command: 'quarto-inline-output.runAbove',
+                    arguments: [uri, chunk.startLine]
+                }),
+                new vscode.CodeLens(range, {
+                    title: 'Run Below',
+                    command: 'quarto-inline-output.runBelow',
+                    arguments: [uri, chunk.startLine]
+                })
+            );
         }
 
         return codeLenses;
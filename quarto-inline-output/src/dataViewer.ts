@@ -0,0 +1,230 @@
+import * as vscode from 'vscode';
+import { BaseSession } from './sessions/baseSession';
+import { SessionManager } from './sessions/sessionManager';
+
+// Rows fetched from the session per page
+const PAGE_SIZE = 100;
+
+// An object registered for viewing in the session (see .quarto_inline$view_object)
+interface ViewHandle {
+    id: string;
+    title: string;
+}
+
+// What the webview asks for: a page of the filtered and sorted rows
+interface PageRequest {
+    type: 'page';
+    offset: number;
+    sortColumn: number; // 1-based, 0 for the original order
+    descending: boolean;
+    filter: string;
+}
+
+// Opens data frames in a webview grid. The data stays in the R session and
+// every page is fetched from it, so large frames open instantly.
+export class DataViewer {
+    private panels: Set<vscode.WebviewPanel> = new Set();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(sessionManager: SessionManager, private extensionUri: vscode.Uri) {
+        this.disposables.push(
+            sessionManager.onDidRequestView(({ session, request }) => {
+                try {
+                    this.show(session, JSON.parse(request));
+                } catch (e) {
+                    console.error('Invalid View() request:', request, e);
+                }
+            })
+        );
+    }
+
+    // Register an object given as an R expression, then show it
+    public async open(session: BaseSession, expr: string, title: string): Promise<void> {
+        const handle = await session.query(`.quarto_inline$view_object(${expr}, ${JSON.stringify(title)})`);
+        this.show(session, JSON.parse(handle));
+    }
+
+    private show(session: BaseSession, handle: ViewHandle): void {
+        const panel = vscode.window.createWebviewPanel(
+            'quarto-inline-output.dataViewer',
+            `View: ${handle.title}`,
+            { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [vscode.Uri.joinPath(this.extensionUri, 'media')]
+            }
+        );
+        this.panels.add(panel);
+        const tableCells = panel.webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'tableCells.js'));
+        panel.webview.html = getHtml(panel.webview, handle.title, tableCells);
+
+        panel.webview.onDidReceiveMessage(async (message: PageRequest) => {
+            if (message.type !== 'page') {
+                return;
+            }
+            try {
+                const page = await session.query(
+                    `.quarto_inline$view_page(${JSON.stringify(handle.id)}, ${Math.max(0, Math.floor(message.offset))}, ${PAGE_SIZE}, ` +
+                    `${Math.max(0, Math.floor(message.sortColumn))}, ${message.descending ? 'TRUE' : 'FALSE'}, ${JSON.stringify(message.filter)})`
+                );
+                panel.webview.postMessage({ type: 'page', page: JSON.parse(page) });
+            } catch (error) {
+                panel.webview.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+            }
+        });
+
+        // Release the session's copy once the viewer is closed
+        panel.onDidDispose(() => {
+            this.panels.delete(panel);
+            session.query(`.quarto_inline$view_close(${JSON.stringify(handle.id)})`).catch(() => undefined);
+        });
+    }
+
+    public dispose(): void {
+        this.panels.forEach(panel => panel.dispose());
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+// tableCells is the script the notebook renderer formats values with too
+function getHtml(webview: vscode.Webview, title: string, tableCells: vscode.Uri): string {
+    const nonce = Math.random().toString(36).slice(2) + Date.now().toString(36);
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}' ${webview.cspSource};">
+<title>${escapeHtml(title)}</title>
+<style>
+    body { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); padding: 0 8px; }
+    .toolbar { position: sticky; top: 0; display: flex; gap: 8px; align-items: center; padding: 6px 0; background: var(--vscode-editor-background); }
+    input { flex: 1; max-width: 300px; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 6px; }
+    button { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); border: none; padding: 2px 8px; cursor: pointer; }
+    button:disabled { opacity: 0.4; cursor: default; }
+    table { border-collapse: collapse; }
+    th, td { padding: 2px 8px; border-bottom: 1px solid var(--vscode-editorWidget-border, rgba(128, 128, 128, 0.35)); white-space: nowrap; max-width: 400px; overflow: hidden; text-overflow: ellipsis; }
+    th { position: sticky; top: 34px; background: var(--vscode-editor-background); cursor: pointer; user-select: none; text-align: left; }
+    th .type { display: block; font-weight: normal; opacity: 0.6; font-size: 0.85em; }
+    td.number { text-align: right; }
+    td.na { opacity: 0.5; font-style: italic; }
+    td.rowname { opacity: 0.7; }
+    .error { color: var(--vscode-errorForeground); }
+</style>
+</head>
+<body>
+<div class="toolbar">
+    <input id="filter" type="search" placeholder="Filter rows">
+    <button id="first">«</button><button id="previous">‹</button>
+    <span id="status">Loading…</span>
+    <button id="next">›</button><button id="last">»</button>
+</div>
+<table><thead id="head"></thead><tbody id="body"></tbody></table>
+<script type="module" nonce="${nonce}">
+    import { cell, valueCell } from '${tableCells}';
+
+    const vscode = acquireVsCodeApi();
+    const pageSize = ${PAGE_SIZE};
+    const state = { offset: 0, sortColumn: 0, descending: false, filter: '', filtered: 0 };
+
+    function request() {
+        vscode.postMessage({ type: 'page', offset: state.offset, sortColumn: state.sortColumn, descending: state.descending, filter: state.filter });
+    }
+
+    function go(offset) {
+        state.offset = Math.max(0, Math.min(offset, Math.max(0, state.filtered - 1)));
+        state.offset -= state.offset % pageSize;
+        request();
+    }
+
+    // Clicking a header cycles ascending, descending, original order
+    function sortBy(column) {
+        if (state.sortColumn !== column) {
+            state.sortColumn = column;
+            state.descending = false;
+        } else if (!state.descending) {
+            state.descending = true;
+        } else {
+            state.sortColumn = 0;
+            state.descending = false;
+        }
+        state.offset = 0;
+        request();
+    }
+
+    function render(page) {
+        state.filtered = page.filtered;
+        document.getElementById('status').className = '';
+
+        const head = document.getElementById('head');
+        head.replaceChildren();
+        const headRow = document.createElement('tr');
+        headRow.appendChild(document.createElement('th'));
+        page.columns.forEach((column, index) => {
+            const th = document.createElement('th');
+            const sorted = state.sortColumn === index + 1;
+            th.textContent = column.name + (sorted ? (state.descending ? ' ▼' : ' ▲') : '');
+            const type = document.createElement('span');
+            type.className = 'type';
+            type.textContent = '<' + column.type + '>';
+            th.appendChild(type);
+            th.addEventListener('click', () => sortBy(index + 1));
+            headRow.appendChild(th);
+        });
+        head.appendChild(headRow);
+
+        const body = document.getElementById('body');
+        body.replaceChildren();
+        page.rows.forEach((row, i) => {
+            const tr = document.createElement('tr');
+            tr.appendChild(cell(page.rowNames[i], 'rowname'));
+            row.forEach((value, column) => tr.appendChild(valueCell(value, page.columns[column].type)));
+            body.appendChild(tr);
+        });
+
+        const last = Math.min(page.offset + pageSize, page.filtered);
+        document.getElementById('status').textContent = page.filtered === 0
+            ? 'No rows' + (page.nrow > 0 ? ' match (' + page.nrow + ' in total)' : '')
+            : 'Rows ' + (page.offset + 1) + '–' + last + ' of ' + page.filtered +
+                (page.filtered < page.nrow ? ' (filtered from ' + page.nrow + ')' : '') +
+                ' × ' + page.columns.length + ' columns';
+        document.getElementById('first').disabled = page.offset === 0;
+        document.getElementById('previous').disabled = page.offset === 0;
+        document.getElementById('next').disabled = last >= page.filtered;
+        document.getElementById('last').disabled = last >= page.filtered;
+    }
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'page') {
+            render(message.page);
+        } else if (message.type === 'error') {
+            const status = document.getElementById('status');
+            status.textContent = message.message;
+            status.className = 'error';
+        }
+    });
+
+    let filterTimer;
+    document.getElementById('filter').addEventListener('input', event => {
+        clearTimeout(filterTimer);
+        filterTimer = setTimeout(() => {
+            state.filter = event.target.value;
+            state.offset = 0;
+            request();
+        }, 300);
+    });
+    document.getElementById('first').addEventListener('click', () => go(0));
+    document.getElementById('previous').addEventListener('click', () => go(state.offset - pageSize));
+    document.getElementById('next').addEventListener('click', () => go(state.offset + pageSize));
+    document.getElementById('last').addEventListener('click', () => go(state.filtered - 1));
+
+    request();
+</script>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
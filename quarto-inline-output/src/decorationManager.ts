@@ -1,14 +1,22 @@
 import * as vscode from 'vscode';
+import { CellOutput, DataFrameTable } from './outputWatcher';
 
+// The result of a chunk run from the text editor, shown after its closing fence
 interface ChunkOutput {
     chunkEndLine: number;
-    textOutput?: string;
-    plotPaths?: string[];
+    outputs: CellOutput[];
+}
+
+// The part of a text change that moves lines, as in vscode.TextDocumentContentChangeEvent
+interface LineChange {
+    range: { start: { line: number; character: number }; end: { line: number; character: number } };
+    text: string;
 }
 
 export class DecorationManager {
     private outputDecorationType: vscode.TextEditorDecorationType;
     private chunkOutputs: Map<string, ChunkOutput[]> = new Map(); // documentUri -> outputs
+    private disposables: vscode.Disposable[] = [];
 
     constructor() {
         this.outputDecorationType = vscode.window.createTextEditorDecorationType({
@@ -17,84 +25,98 @@ export class DecorationManager {
             },
             isWholeLine: true,
         });
-    }
 
-    public setChunkOutput(
-        editor: vscode.TextEditor,
-        chunkEndLine: number,
-        textOutput?: string,
-        plotPaths?: string[]
-    ): void {
-        const uri = editor.document.uri.toString();
+        this.disposables.push(
+            vscode.window.onDidChangeVisibleTextEditors(editors => {
+                editors.forEach(editor => this.renderDecorations(editor));
+            }),
+            // Outputs follow their chunk when lines are added or removed above it
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (this.moveOutputs(event.document, event.contentChanges)) {
+                    this.renderDocument(event.document);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.chunkOutputs.delete(document.uri.toString());
+            })
+        );
+    }
 
-        console.log('[DecorationManager] Setting output for chunk ending at line', chunkEndLine);
-        console.log('[DecorationManager] Text output:', textOutput);
-        console.log('[DecorationManager] Plot paths:', plotPaths);
+    public setChunkOutput(document: vscode.TextDocument, chunkEndLine: number, outputs: CellOutput[]): void {
+        const uri = document.uri.toString();
 
         // Get or create outputs array for this document
         if (!this.chunkOutputs.has(uri)) {
             this.chunkOutputs.set(uri, []);
         }
 
-        const outputs = this.chunkOutputs.get(uri)!;
+        // Replace the chunk's previous output if any
+        const documentOutputs = this.chunkOutputs.get(uri)!.filter(o => o.chunkEndLine !== chunkEndLine);
+        documentOutputs.push({ chunkEndLine, outputs });
+        this.chunkOutputs.set(uri, documentOutputs);
 
-        // Remove existing output for this chunk if any
-        const existingIndex = outputs.findIndex(o => o.chunkEndLine === chunkEndLine);
-        if (existingIndex >= 0) {
-            outputs.splice(existingIndex, 1);
-        }
+        this.renderDocument(document);
+    }
 
-        // Add new output
-        outputs.push({
-            chunkEndLine,
-            textOutput,
-            plotPaths
-        });
+    public clearChunkOutput(document: vscode.TextDocument, chunkEndLine: number): void {
+        const uri = document.uri.toString();
+        const outputs = this.chunkOutputs.get(uri);
 
-        console.log('[DecorationManager] Total outputs for document:', outputs.length);
+        if (outputs?.some(o => o.chunkEndLine === chunkEndLine)) {
+            this.chunkOutputs.set(uri, outputs.filter(o => o.chunkEndLine !== chunkEndLine));
+            this.renderDocument(document);
+        }
+    }
 
-        // Re-render all decorations for this document
-        this.renderDecorations(editor);
+    public clearAllOutputs(document: vscode.TextDocument): void {
+        this.chunkOutputs.delete(document.uri.toString());
+        this.renderDocument(document);
     }
 
-    public clearChunkOutput(editor: vscode.TextEditor, chunkEndLine: number): void {
-        const uri = editor.document.uri.toString();
+    // Shift outputs by the lines each change added or removed above them; an
+    // output whose closing fence was deleted goes with it
+    private moveOutputs(
+        document: vscode.TextDocument,
+        changes: readonly vscode.TextDocumentContentChangeEvent[]
+    ): boolean {
+        const uri = document.uri.toString();
         const outputs = this.chunkOutputs.get(uri);
-
-        if (outputs) {
-            const index = outputs.findIndex(o => o.chunkEndLine === chunkEndLine);
-            if (index >= 0) {
-                outputs.splice(index, 1);
-                this.renderDecorations(editor);
-            }
+        if (!outputs || changes.length === 0) {
+            return false;
         }
+
+        // Changes are reported against the document before the edit, bottom to top
+        const moved = outputs
+            .map(output => {
+                let line: number | undefined = output.chunkEndLine;
+                for (const change of changes) {
+                    line = line === undefined ? undefined : shiftLine(line, change);
+                }
+                return line === undefined ? undefined : { ...output, chunkEndLine: line };
+            })
+            .filter((output): output is ChunkOutput => output !== undefined);
+
+        this.chunkOutputs.set(uri, moved);
+        return true;
     }
 
-    public clearAllOutputs(editor: vscode.TextEditor): void {
-        const uri = editor.document.uri.toString();
-        this.chunkOutputs.delete(uri);
-        editor.setDecorations(this.outputDecorationType, []);
+    private renderDocument(document: vscode.TextDocument): void {
+        vscode.window.visibleTextEditors
+            .filter(editor => editor.document === document)
+            .forEach(editor => this.renderDecorations(editor));
     }
 
     private renderDecorations(editor: vscode.TextEditor): void {
-        const uri = editor.document.uri.toString();
-        const outputs = this.chunkOutputs.get(uri) || [];
-
-        console.log('[DecorationManager] Rendering decorations for', outputs.length, 'outputs');
+        const outputs = this.chunkOutputs.get(editor.document.uri.toString()) || [];
 
         const decorations: vscode.DecorationOptions[] = [];
-
         for (const output of outputs) {
             const decoration = this.createDecoration(editor, output);
             if (decoration) {
                 decorations.push(decoration);
-                console.log('[DecorationManager] Created decoration for line', output.chunkEndLine);
-            } else {
-                console.log('[DecorationManager] Failed to create decoration for line', output.chunkEndLine);
             }
         }
 
-        console.log('[DecorationManager] Setting', decorations.length, 'decorations');
         editor.setDecorations(this.outputDecorationType, decorations);
     }
 
@@ -108,40 +130,16 @@ export class DecorationManager {
             return null;
         }
 
-        // Create hover message with full output
-        const hoverMessage = new vscode.MarkdownString();
-        hoverMessage.isTrusted = true;
-
-        if (output.textOutput) {
-            const trimmed = output.textOutput.trim();
-            const lineCount = trimmed.split('\n').length;
-            hoverMessage.appendMarkdown(`**Output (${lineCount} lines)**\n\n`);
-            hoverMessage.appendCodeblock(trimmed, 'r');
-        }
-
-        if (output.plotPaths && output.plotPaths.length > 0) {
-            hoverMessage.appendMarkdown(`\n\n**Plots:** ${output.plotPaths.length} generated`);
-        }
-
-        // Create a simple inline indicator
-        let contentText = '';
-        if (output.textOutput) {
-            const lines = output.textOutput.trim().split('\n');
-            contentText = ` 📋 Output (${lines.length} lines)`;
-        }
-        if (output.plotPaths && output.plotPaths.length > 0) {
-            contentText += ` 📊 ${output.plotPaths.length} plot(s)`;
-        }
-
+        const { text, isError } = summarizeOutputs(output.outputs);
         const range = new vscode.Range(line, 0, line, 0);
 
         return {
             range,
-            hoverMessage,
+            hoverMessage: outputsToMarkdown(output.outputs),
             renderOptions: {
                 after: {
-                    contentText,
-                    color: new vscode.ThemeColor('editorInfo.foreground'),
+                    contentText: ` ${text}`,
+                    color: new vscode.ThemeColor(isError ? 'editorError.foreground' : 'editorInfo.foreground'),
                     margin: '0 0 0 2em',
                 }
             }
@@ -149,7 +147,110 @@ export class DecorationManager {
     }
 
     public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
         this.outputDecorationType.dispose();
         this.chunkOutputs.clear();
     }
 }
+
+// Where a line ends up after a change: moved by the lines added or removed
+// before it, unchanged for edits after its start, undefined when it was deleted
+export function shiftLine(line: number, change: LineChange): number | undefined {
+    const { start, end } = change.range;
+
+    // Edits on the line itself (after its first character) or below it
+    if (start.line > line || (start.line === line && start.character > 0)) {
+        return line;
+    }
+    // Edits that reach into the line remove it
+    if (end.line > line || (end.line === line && end.character > 0)) {
+        return undefined;
+    }
+
+    const added = change.text.split('\n').length - 1;
+    return line + added - (end.line - start.line);
+}
+
+// The one-line summary after the chunk: the first line of the error, else of
+// the printed output, and what else the chunk produced
+export function summarizeOutputs(outputs: CellOutput[]): { text: string; isError: boolean } {
+    const error = outputs.find(o => o.type === 'ERROR');
+    if (error) {
+        return { text: `⚠ ${firstLine(error.content)}`, isError: true };
+    }
+    if (outputs.some(o => o.type === 'INTERRUPTED')) {
+        return { text: '⚠ Interrupted', isError: true };
+    }
+
+    const parts: string[] = [];
+    const text = outputs
+        .filter(o => o.type === 'OUTPUT' || o.type === 'MESSAGE' || o.type === 'WARNING')
+        .map(o => o.content.trim())
+        .filter(Boolean)
+        .join('\n');
+    if (text) {
+        const lines = text.split('\n');
+        parts.push(`→ ${lines[0]}${lines.length > 1 ? ` … (${lines.length} lines)` : ''}`);
+    }
+
+    const plots = outputs.filter(o => o.type === 'PLOT').length;
+    if (plots > 0) {
+        parts.push(`📊 ${plots} plot(s)`);
+    }
+    const tables = outputs.filter(o => o.type === 'DATAFRAME').length;
+    if (tables > 0) {
+        parts.push(`▦ ${tables} table(s)`);
+    }
+    if (outputs.some(o => o.type === 'HTML')) {
+        parts.push('🌐 HTML');
+    }
+
+    return { text: parts.length > 0 ? parts.join('  ') : '✓ No output', isError: false };
+}
+
+// The full output for the hover: text as code blocks, plots as inline images
+// and HTML as is (the hover strips scripts and styles)
+function outputsToMarkdown(outputs: CellOutput[]): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    markdown.supportHtml = true;
+
+    for (const output of outputs) {
+        switch (output.type) {
+            case 'OUTPUT':
+            case 'MESSAGE':
+            case 'WARNING':
+            case 'ERROR':
+            case 'INTERRUPTED':
+                if (output.content.trim()) {
+                    markdown.appendCodeblock(output.content.trimEnd(), 'text');
+                }
+                break;
+
+            case 'PLOT':
+                if (output.data) {
+                    const mime = output.content.endsWith('.svg') ? 'image/svg+xml' : 'image/png';
+                    markdown.appendMarkdown(`\n\n![plot](data:${mime};base64,${output.data.toString('base64')})\n\n`);
+                }
+                break;
+
+            case 'DATAFRAME':
+                try {
+                    const table: DataFrameTable = JSON.parse(output.content);
+                    markdown.appendCodeblock(table.text, 'text');
+                } catch (e) {
+                    console.error('Failed to parse data frame:', e);
+                }
+                break;
+
+            case 'HTML':
+                markdown.appendMarkdown(`\n\n${output.content}\n\n`);
+                break;
+        }
+    }
+
+    return markdown;
+}
+
+function firstLine(text: string): string {
+    return text.trim().split('\n')[0];
+}
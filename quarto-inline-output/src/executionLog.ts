@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ExecutionEntry {
+    order: number;
+    language: string;
+    code: string;
+    label?: string;
+    cellIndex?: number;
+    timestamp: number;
+    // undefined when the run was interrupted
+    success: boolean | undefined;
+}
+
+// A session restart splits the log: only what ran after it built the current state
+type LogItem = ExecutionEntry | { restart: number };
+
+// What ran in each document's session, in order, shown in the "Quarto Session Log"
+// output channel and exportable as a script that replays the run
+export class ExecutionLog {
+    private logs: Map<string, LogItem[]> = new Map(); // document URI -> log
+    private channel: vscode.OutputChannel;
+
+    constructor() {
+        this.channel = vscode.window.createOutputChannel('Quarto Session Log');
+    }
+
+    public record(uri: vscode.Uri, entry: ExecutionEntry): void {
+        this.getLog(uri).push(entry);
+
+        const status = entry.success === undefined ? 'interrupted' : entry.success ? 'succeeded' : 'failed';
+        const where = [entry.label, entry.cellIndex !== undefined ? `cell ${entry.cellIndex + 1}` : undefined, entry.language]
+            .filter(Boolean)
+            .join(', ');
+        this.channel.appendLine(`[${formatTimestamp(entry.timestamp)}] ${path.basename(uri.fsPath)} [${entry.order}] (${where}) ${status}`);
+        entry.code.split('\n').forEach(line => this.channel.appendLine(`    ${line}`));
+    }
+
+    public markRestart(uri: vscode.Uri): void {
+        const timestamp = Date.now();
+        this.getLog(uri).push({ restart: timestamp });
+        this.channel.appendLine(`[${formatTimestamp(timestamp)}] ${path.basename(uri.fsPath)} session restarted`);
+    }
+
+    // Documents with a log, so a restart can be marked in every one sharing the session
+    public getDocuments(): vscode.Uri[] {
+        return [...this.logs.keys()].map(key => vscode.Uri.parse(key));
+    }
+
+    // Entries since the session last restarted, in the order they ran
+    public getCurrentRun(uri: vscode.Uri): ExecutionEntry[] {
+        const log = this.logs.get(uri.toString()) ?? [];
+        const lastRestart = log.map(item => 'restart' in item).lastIndexOf(true);
+        return log.slice(lastRestart + 1) as ExecutionEntry[];
+    }
+
+    public show(): void {
+        this.channel.show(true);
+    }
+
+    public async exportScript(uri: vscode.Uri): Promise<void> {
+        const entries = this.getCurrentRun(uri);
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('Nothing has run in this document\'s session since it started');
+            return;
+        }
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(uri.fsPath.replace(/\.qmd$/, '') + '-run.R'),
+            filters: { 'R script': ['R'] }
+        });
+        if (!target) {
+            return;
+        }
+
+        fs.writeFileSync(target.fsPath, buildScript(path.basename(uri.fsPath), entries));
+        await vscode.window.showTextDocument(target);
+    }
+
+    private getLog(uri: vscode.Uri): LogItem[] {
+        const key = uri.toString();
+        let log = this.logs.get(key);
+        if (!log) {
+            log = [];
+            this.logs.set(key, log);
+        }
+        return log;
+    }
+
+    public dispose(): void {
+        this.channel.dispose();
+    }
+}
+
+// The R code in the order it ran; other languages are left out with a note
+export function buildScript(documentName: string, entries: ExecutionEntry[], exportedAt: number = Date.now()): string {
+    const lines = [
+        `# Code executed in the session of ${documentName}, in run order`,
+        `# Exported ${formatTimestamp(exportedAt)}`,
+        ''
+    ];
+
+    for (const entry of entries) {
+        const name = entry.label ?? (entry.cellIndex !== undefined ? `cell ${entry.cellIndex + 1}` : 'chunk');
+        const status = entry.success === undefined ? ' (interrupted)' : entry.success ? '' : ' (failed)';
+        lines.push(`# ---- [${entry.order}] ${name}, ${formatTimestamp(entry.timestamp)}${status} ----`);
+        if (entry.language === 'r') {
+            lines.push(entry.code.replace(/\s+$/, ''));
+        } else {
+            lines.push(`# ${entry.language} code not included`);
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+function formatTimestamp(time: number): string {
+    const date = new Date(time);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+        `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
@@ -1,17 +1,33 @@
 import * as vscode from 'vscode';
 import { QuartoCodeLensProvider } from './codeLensProvider';
 import { DecorationManager } from './decorationManager';
-import { CodeChunk } from './chunkParser';
+import { CodeChunk, parseDocument } from './chunkParser';
 import { QuartoNotebookSerializer } from './notebookSerializer';
 import { QuartoNotebookController } from './notebookController';
+import { InlineCodeManager } from './inlineCodeManager';
+import { SessionManager } from './sessions/sessionManager';
+import { cleanStaleOutputDirs } from './sessions/baseSession';
+import { ChunkRunner, RunScope } from './chunkRunner';
+import { VariablesProvider, VariableItem } from './variablesProvider';
+import { DataViewer } from './dataViewer';
+import { CellStatusBarProvider, showRunSummary } from './cellStatusBar';
 
 let decorationManager: DecorationManager;
 let codeLensProvider: QuartoCodeLensProvider;
+let sessionManager: SessionManager;
 let notebookController: QuartoNotebookController;
+let inlineCodeManager: InlineCodeManager;
+let chunkRunner: ChunkRunner;
+let variablesProvider: VariablesProvider;
+let dataViewer: DataViewer;
+let diagnosticCollection: vscode.DiagnosticCollection;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Quarto Inline Output extension is now active (file-based IPC mode)');
 
+    // Session directories left behind by windows that crashed
+    cleanStaleOutputDirs();
+
     // Initialize managers
     decorationManager = new DecorationManager();
     codeLensProvider = new QuartoCodeLensProvider();
@@ -22,28 +38,63 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.workspace.registerNotebookSerializer(
             'quarto-notebook',
             notebookSerializer,
-            { transientOutputs: false }
+            // Outputs live in the sidecar cache, never in the .qmd itself
+            { transientOutputs: true }
         )
     );
 
-    // Register notebook controller (uses default terminal + file-based output capture)
-    notebookController = new QuartoNotebookController();
+    // Each document runs in its own session unless bound to a shared one
+    sessionManager = new SessionManager();
+    context.subscriptions.push(sessionManager);
+
+    // Register notebook controller (session terminals + file-based output capture)
+    notebookController = new QuartoNotebookController(sessionManager, context.workspaceState);
     context.subscriptions.push(notebookController);
 
+    // Duration, finish time, memory and cache origin of each cell
+    context.subscriptions.push(new CellStatusBarProvider(notebookController.cellTimings));
+
+    // Inline `r expr` results for text editors and notebook markdown cells
+    inlineCodeManager = new InlineCodeManager(notebookController);
+    context.subscriptions.push(inlineCodeManager);
+
+    // Run All / Above / Below / Section, from code lenses (document and line) or the cursor
+    chunkRunner = new ChunkRunner(notebookController, decorationManager);
+    const scopes: [string, RunScope][] = [
+        ['quarto-inline-output.runAll', 'all'],
+        ['quarto-inline-output.runAbove', 'above'],
+        ['quarto-inline-output.runBelow', 'below'],
+        ['quarto-inline-output.runSection', 'section']
+    ];
+    const runScopeCommands = scopes.map(([command, scope]) => vscode.commands.registerCommand(
+        command,
+        (uri?: vscode.Uri, line?: number) => chunkRunner.run(scope, uri, line)
+    ));
+
+    // View() in a session, or View on a table in the variable view, opens the data viewer
+    dataViewer = new DataViewer(sessionManager, context.extensionUri);
+    context.subscriptions.push(dataViewer);
+
+    // "Quarto Session" view of the R session's objects, refreshed after code runs
+    variablesProvider = new VariablesProvider(sessionManager, notebookController, dataViewer);
+    context.subscriptions.push(variablesProvider);
+    const variableCommands = [
+        vscode.commands.registerCommand('quarto-inline-output.refreshVariables', () => variablesProvider.refresh()),
+        vscode.commands.registerCommand('quarto-inline-output.viewVariable', (item: VariableItem) => variablesProvider.view(item)),
+        vscode.commands.registerCommand('quarto-inline-output.printVariable', (item: VariableItem) => variablesProvider.print(item)),
+        vscode.commands.registerCommand('quarto-inline-output.removeVariable', (item: VariableItem) => variablesProvider.remove(item))
+    ];
+
     // Register code lens provider for .qmd files
     const codeLensDisposable = vscode.languages.registerCodeLensProvider(
         { pattern: '**/*.qmd', scheme: 'file' },
         codeLensProvider
     );
 
-    // Register run chunk command (simplified for now - uses notebook execution)
+    // Run one chunk from its code lens or the cursor; the result shows after the chunk
     const runChunkCommand = vscode.commands.registerCommand(
         'quarto-inline-output.runChunk',
-        async (chunk: CodeChunk) => {
-            vscode.window.showInformationMessage(
-                'Run chunk from text editor not yet supported in file-IPC mode. Open as notebook to execute.'
-            );
-        }
+        (chunk?: CodeChunk) => chunkRunner.runChunk(chunk)
     );
 
     // Register refresh command
@@ -54,6 +105,93 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
+    // Register inline code refresh command
+    const refreshInlineCodeCommand = vscode.commands.registerCommand(
+        'quarto-inline-output.refreshInlineCode',
+        () => inlineCodeManager.refreshAll()
+    );
+
+    // Session commands, also shown in the notebook toolbar
+    const restartSessionCommand = vscode.commands.registerCommand(
+        'quarto-inline-output.restartSession',
+        async () => {
+            // The active document's session, or every session if no Quarto document is active
+            await notebookController.restart(sessionManager.getActiveDocumentUri());
+            vscode.window.setStatusBarMessage('Quarto: session restarted', 3000);
+        }
+    );
+
+    const switchSessionCommand = vscode.commands.registerCommand(
+        'quarto-inline-output.switchSession',
+        async () => {
+            const uri = sessionManager.getActiveDocumentUri();
+            if (!uri) {
+                vscode.window.showErrorMessage('No active Quarto document');
+                return;
+            }
+
+            await sessionManager.switchSession(uri);
+            variablesProvider.refresh();
+        }
+    );
+
+    const restartAndRunAllCommand = vscode.commands.registerCommand(
+        'quarto-inline-output.restartAndRunAll',
+        async () => {
+            const notebook = getActiveQuartoNotebook();
+            if (!notebook) {
+                vscode.window.showErrorMessage('No active Quarto notebook');
+                return;
+            }
+
+            await notebookController.restartAndRunAll(notebook);
+        }
+    );
+
+    const clearAllOutputsCommand = vscode.commands.registerCommand(
+        'quarto-inline-output.clearAllOutputs',
+        () => {
+            const notebook = getActiveQuartoNotebook();
+            if (!notebook) {
+                vscode.window.showErrorMessage('No active Quarto notebook');
+                return;
+            }
+
+            notebookController.clearOutputs(notebook);
+        }
+    );
+
+    const showRunSummaryCommand = vscode.commands.registerCommand(
+        'quarto-inline-output.showRunSummary',
+        () => {
+            const notebook = getActiveQuartoNotebook();
+            if (!notebook) {
+                vscode.window.showErrorMessage('No active Quarto notebook');
+                return;
+            }
+
+            showRunSummary(notebook, notebookController.cellTimings);
+        }
+    );
+
+    const showSessionLogCommand = vscode.commands.registerCommand(
+        'quarto-inline-output.showSessionLog',
+        () => notebookController.executionLog.show()
+    );
+
+    const exportExecutedCodeCommand = vscode.commands.registerCommand(
+        'quarto-inline-output.exportExecutedCode',
+        async () => {
+            const uri = sessionManager.getActiveDocumentUri();
+            if (!uri) {
+                vscode.window.showErrorMessage('No active Quarto document');
+                return;
+            }
+
+            await notebookController.executionLog.exportScript(uri);
+        }
+    );
+
     // Command: Open as Notebook
     const openAsNotebookCommand = vscode.commands.registerCommand(
         'quarto-inline-output.openAsNotebook',
@@ -70,14 +208,16 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            // Close current editor
-            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
-
-            // Reopen as notebook
+            // Reopen as notebook, then close the text editor; the document stays
+            // open throughout, so its session is kept
+            const tab = vscode.window.tabGroups.activeTabGroup.activeTab;
             await vscode.commands.executeCommand('vscode.openWith',
                 document.uri,
                 'quarto-notebook'
             );
+            if (tab) {
+                await vscode.window.tabGroups.close(tab);
+            }
         }
     );
 
@@ -97,36 +237,86 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            // Close notebook
-            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
-
-            // Reopen as text
-            await vscode.commands.executeCommand('vscode.open', uri);
+            // Reopen as text, then close the notebook, keeping the session
+            const tab = vscode.window.tabGroups.activeTabGroup.activeTab;
+            await vscode.commands.executeCommand('vscode.openWith', uri, 'default');
+            if (tab) {
+                await vscode.window.tabGroups.close(tab);
+            }
         }
     );
 
+    // Report chunk parse problems (e.g. unterminated fences) as diagnostics
+    diagnosticCollection = vscode.languages.createDiagnosticCollection('quarto-inline-output');
+    vscode.workspace.textDocuments.forEach(updateDiagnostics);
+
+    const openDisposable = vscode.workspace.onDidOpenTextDocument(updateDiagnostics);
+    const closeDisposable = vscode.workspace.onDidCloseTextDocument(document => {
+        diagnosticCollection.delete(document.uri);
+    });
+
     // Refresh code lenses when document changes
     const changeDisposable = vscode.workspace.onDidChangeTextDocument(event => {
         if (event.document.fileName.endsWith('.qmd')) {
             codeLensProvider.refresh();
+            updateDiagnostics(event.document);
         }
     });
 
     context.subscriptions.push(
         codeLensDisposable,
         runChunkCommand,
+        ...runScopeCommands,
+        ...variableCommands,
         refreshCommand,
+        refreshInlineCodeCommand,
+        restartSessionCommand,
+        switchSessionCommand,
+        restartAndRunAllCommand,
+        clearAllOutputsCommand,
+        showRunSummaryCommand,
+        showSessionLogCommand,
+        exportExecutedCodeCommand,
         openAsNotebookCommand,
         openAsTextCommand,
         changeDisposable,
+        openDisposable,
+        closeDisposable,
+        diagnosticCollection,
         { dispose: () => decorationManager.dispose() }
     );
 }
 
+function getActiveQuartoNotebook(): vscode.NotebookDocument | undefined {
+    const notebook = vscode.window.activeNotebookEditor?.notebook;
+    return notebook?.notebookType === 'quarto-notebook' ? notebook : undefined;
+}
+
+function updateDiagnostics(document: vscode.TextDocument): void {
+    if (!document.fileName.endsWith('.qmd')) {
+        return;
+    }
+
+    const { diagnostics } = parseDocument(document.getText());
+    diagnosticCollection.set(document.uri, diagnostics.map(d => {
+        const line = document.lineAt(d.line);
+        const diagnostic = new vscode.Diagnostic(
+            line.range,
+            d.message,
+            d.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'quarto-inline-output';
+        return diagnostic;
+    }));
+}
+
 export function deactivate() {
     if (notebookController) {
         notebookController.dispose();
     }
+    if (sessionManager) {
+        sessionManager.dispose();
+    }
     if (decorationManager) {
         decorationManager.dispose();
     }
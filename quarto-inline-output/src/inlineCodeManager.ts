@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import { findInlineExpressions } from './chunkParser';
+import { QuartoNotebookController } from './notebookController';
+
+interface InlineResult {
+    value: string;
+    isError: boolean;
+}
+
+export const INLINE_RENDERER_ID = 'quarto-inline-output.inline-r';
+
+export class InlineCodeManager {
+    private decorationType: vscode.TextEditorDecorationType;
+    private results: Map<string, Map<string, InlineResult>> = new Map(); // documentUri -> code -> result
+    private messaging: vscode.NotebookRendererMessaging;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private controller: QuartoNotebookController) {
+        this.decorationType = vscode.window.createTextEditorDecorationType({
+            after: {
+                margin: '0 0 0 0.5em',
+                fontStyle: 'italic'
+            }
+        });
+
+        // The markdown-it extension asks for cached results when a notebook renders
+        this.messaging = vscode.notebooks.createRendererMessaging(INLINE_RENDERER_ID);
+        this.disposables.push(
+            this.messaging.onDidReceiveMessage(event => {
+                if (event.message?.type === 'requestInlineResults') {
+                    this.postNotebookResults(event.editor.notebook, event.editor);
+                }
+            }),
+            vscode.window.onDidChangeVisibleTextEditors(editors => {
+                editors.forEach(editor => this.renderDecorations(editor));
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                vscode.window.visibleTextEditors
+                    .filter(editor => editor.document === event.document)
+                    .forEach(editor => this.renderDecorations(editor));
+            })
+        );
+    }
+
+    // Evaluate every inline expression in the active text editor or notebook
+    public async refreshAll(): Promise<void> {
+        const notebookEditor = vscode.window.activeNotebookEditor;
+        if (notebookEditor) {
+            const notebook = notebookEditor.notebook;
+            const text = notebook.getCells()
+                .filter(cell => cell.kind === vscode.NotebookCellKind.Markup)
+                .map(cell => cell.document.getText())
+                .join('\n\n');
+
+            await this.evaluateAll(notebook.uri, text);
+            this.postNotebookResults(notebook);
+            return;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor');
+            return;
+        }
+
+        await this.evaluateAll(editor.document.uri, editor.document.getText());
+        this.renderDecorations(editor);
+    }
+
+    private async evaluateAll(uri: vscode.Uri, text: string): Promise<void> {
+        const codes = [...new Set(findInlineExpressions(text).map(e => e.code))];
+        const results = new Map<string, InlineResult>();
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: 'Evaluating inline R code'
+        }, async () => {
+            // Sequentially, so results reflect document order against the session
+            for (const code of codes) {
+                results.set(code, await this.evaluate(uri, code));
+            }
+        });
+
+        this.results.set(uri.toString(), results);
+    }
+
+    // Inline code runs in the session like a chunk, so it goes in the session log too
+    private async evaluate(uri: vscode.Uri, code: string): Promise<InlineResult> {
+        const order = this.controller.nextExecutionOrder(uri);
+        const timestamp = Date.now();
+        const result = await this.evaluateValue(uri, code);
+
+        this.controller.executionLog.record(uri, {
+            order,
+            language: 'r',
+            code,
+            label: 'inline',
+            timestamp,
+            success: !result.isError
+        });
+        return result;
+    }
+
+    private async evaluateValue(uri: vscode.Uri, code: string): Promise<InlineResult> {
+        try {
+            const outputs = await this.controller.evaluate(uri, `.quarto_inline$inline_value({${code}})`);
+            const error = outputs.find(o => o.type === 'ERROR');
+            if (error) {
+                return { value: error.content, isError: true };
+            }
+
+            const value = outputs
+                .filter(o => o.type === 'OUTPUT')
+                .map(o => o.content)
+                .join('\n');
+            return { value, isError: false };
+        } catch (error) {
+            return { value: error instanceof Error ? error.message : String(error), isError: true };
+        }
+    }
+
+    private renderDecorations(editor: vscode.TextEditor): void {
+        const results = this.results.get(editor.document.uri.toString());
+        if (!results) {
+            return;
+        }
+
+        const decorations: vscode.DecorationOptions[] = [];
+
+        for (const expression of findInlineExpressions(editor.document.getText())) {
+            const result = results.get(expression.code);
+            if (!result) {
+                continue;
+            }
+
+            const hoverMessage = new vscode.MarkdownString();
+            hoverMessage.appendCodeblock(result.value, result.isError ? 'text' : 'r');
+
+            decorations.push({
+                range: new vscode.Range(expression.line, expression.start, expression.line, expression.end),
+                hoverMessage,
+                renderOptions: {
+                    after: {
+                        contentText: result.isError ? `⚠ ${firstLine(result.value)}` : `→ ${firstLine(result.value)}`,
+                        color: new vscode.ThemeColor(result.isError ? 'editorError.foreground' : 'editorInfo.foreground')
+                    }
+                }
+            });
+        }
+
+        editor.setDecorations(this.decorationType, decorations);
+    }
+
+    private postNotebookResults(notebook: vscode.NotebookDocument, editor?: vscode.NotebookEditor): void {
+        const results = this.results.get(notebook.uri.toString());
+        if (!results) {
+            return;
+        }
+
+        const payload: Record<string, string> = {};
+        for (const [code, result] of results) {
+            payload[code] = result.isError ? `⚠ ${result.value}` : result.value;
+        }
+
+        const message = { type: 'inlineResults', results: payload };
+        const editors = editor
+            ? [editor]
+            : vscode.window.visibleNotebookEditors.filter(e => e.notebook === notebook);
+        editors.forEach(e => this.messaging.postMessage(message, e));
+    }
+
+    public dispose(): void {
+        this.decorationType.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.results.clear();
+    }
+}
+
+function firstLine(text: string): string {
+    const lines = text.split('\n');
+    return lines.length > 1 ? `${lines[0]} …` : lines[0];
+}
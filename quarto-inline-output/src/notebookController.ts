@@ -1,333 +1,455 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import * as fs from 'fs';
-import { OutputWatcher, cellOutputsToNotebookOutput } from './outputWatcher';
-
-interface YamlOptions {
-    echo: boolean;
-    message: boolean;
-    warning: boolean;
-    error: boolean;
+import { CellOutput, cellOutputsToNotebookOutput, visibleOutputs } from './outputWatcher';
+import { OutputCache, hashSource, markSource } from './outputCache';
+import { DocumentOptions, ExecutionOptions, parseFrontMatterOptions, resolveExecutionOptions } from './chunkParser';
+import { SessionManager } from './sessions/sessionManager';
+import { CellTiming, TIMING_METADATA_KEY, cellTiming } from './cellStatusBar';
+import { ExecutionLog } from './executionLog';
+import { RInterpreter, defaultInterpreter, discoverInterpreters, interpreterLabel } from './sessions/interpreters';
+
+// {python3} chunks run in the python session
+export const SUPPORTED_LANGUAGES = ['r', 'python', 'python3'];
+
+// The R last picked in the kernel picker, remembered per workspace
+const INTERPRETER_STATE_KEY = 'quarto-inline-output.interpreter';
+
+// One notebook controller ("kernel") per R interpreter
+interface Kernel {
+    controller: vscode.NotebookController;
+    interpreter: RInterpreter;
 }
 
 export class QuartoNotebookController {
-    private controller: vscode.NotebookController;
-    private outputWatcher: OutputWatcher;
-    private terminal: vscode.Terminal | null = null;
-    private rSetupSourced: boolean = false;
-    private executionOrder: number = 0;
+    private kernels: Map<string, Kernel> = new Map(); // interpreter id -> kernel
+    private selectedControllers: WeakMap<vscode.NotebookDocument, vscode.NotebookController> = new WeakMap();
+    private executionOrders: Map<string, number> = new Map(); // session name -> last execution order
+    private outputCache: OutputCache;
+    public readonly executionLog: ExecutionLog = new ExecutionLog();
+    private activeBatches: Map<vscode.NotebookDocument, Set<vscode.CancellationTokenSource>> = new Map();
+    private queuedCells: Set<vscode.NotebookCell> = new Set();
+
+    // How long each cell took in its last run in this window
+    public readonly cellTimings: WeakMap<vscode.NotebookCell, CellTiming> = new WeakMap();
+    private disposables: vscode.Disposable[] = [];
+
+    // Fires with the document whenever code finished running in its session or
+    // the session was restarted; without a document every session may have changed
+    private readonly didChangeSessionEmitter = new vscode.EventEmitter<vscode.Uri | undefined>();
+    public readonly onDidChangeSession = this.didChangeSessionEmitter.event;
+
+    constructor(private sessionManager: SessionManager, private workspaceState: vscode.Memento) {
+        this.outputCache = new OutputCache();
+
+        // The default R and the one picked last are there right away; the
+        // others appear once discovered
+        this.addKernel(defaultInterpreter());
+        const remembered = workspaceState.get<RInterpreter>(INTERPRETER_STATE_KEY);
+        if (remembered && remembered.id !== 'default' && fs.existsSync(remembered.command)) {
+            this.addKernel(remembered);
+            this.sessionManager.setDefaultInterpreter(remembered);
+        }
+        vscode.workspace.notebookDocuments.forEach(notebook => this.preferRemembered(notebook));
+        this.discover();
+
+        this.disposables.push(
+            vscode.workspace.onDidOpenNotebookDocument(notebook => this.preferRemembered(notebook)),
+            vscode.workspace.onDidSaveNotebookDocument(notebook => {
+                if (notebook.notebookType === 'quarto-notebook') {
+                    this.outputCache.save(notebook);
+                }
+            })
+        );
+    }
+
+    private async discover(): Promise<void> {
+        try {
+            const interpreters = await discoverInterpreters(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath);
+            interpreters.forEach(interpreter => this.addKernel(interpreter));
+            console.log('R interpreters:', interpreters.map(interpreterLabel).join(', '));
+        } catch (error) {
+            console.error('Could not discover R interpreters:', error);
+        }
+    }
 
-    constructor() {
-        this.outputWatcher = new OutputWatcher();
+    // A controller for the interpreter; one already there gets the newer details
+    private addKernel(interpreter: RInterpreter): void {
+        const existing = this.kernels.get(interpreter.id);
+        if (existing) {
+            existing.interpreter = interpreter;
+            existing.controller.label = `Quarto ${interpreterLabel(interpreter)}`;
+            existing.controller.description = interpreter.description;
+            return;
+        }
 
-        this.controller = vscode.notebooks.createNotebookController(
-            'quarto-notebook-controller',
+        const controller = vscode.notebooks.createNotebookController(
+            interpreter.id === 'default' ? 'quarto-notebook-controller' : `quarto-notebook-controller:${interpreter.id}`,
             'quarto-notebook',
-            'Quarto R'
+            `Quarto ${interpreterLabel(interpreter)}`
+        );
+        controller.description = interpreter.description;
+        controller.supportedLanguages = SUPPORTED_LANGUAGES;
+        controller.supportsExecutionOrder = true;
+        controller.executeHandler = this.executeCell.bind(this);
+        controller.interruptHandler = this.interrupt.bind(this);
+
+        const kernel = { controller, interpreter };
+        this.kernels.set(interpreter.id, kernel);
+        this.disposables.push(
+            controller,
+            controller.onDidChangeSelectedNotebooks(({ notebook, selected }) => {
+                if (selected) {
+                    this.select(notebook, kernel);
+                }
+            })
         );
-
-        this.controller.supportedLanguages = ['r'];
-        this.controller.supportsExecutionOrder = true;
-        this.controller.executeHandler = this.executeCell.bind(this);
     }
 
-    private getOrCreateTerminal(): vscode.Terminal {
-        // Look for an existing R terminal
-        const existingTerminal = vscode.window.terminals.find(t =>
-            t.name.toLowerCase().includes('r') ||
-            t.name.toLowerCase().includes('radian')
-        );
+    private select(notebook: vscode.NotebookDocument, { controller, interpreter }: Kernel): void {
+        this.selectedControllers.set(notebook, controller);
+        this.workspaceState.update(INTERPRETER_STATE_KEY, interpreter);
+        this.sessionManager.setDefaultInterpreter(interpreter);
 
-        if (existingTerminal) {
-            this.terminal = existingTerminal;
-            return existingTerminal;
+        // Switching kernels starts the session over on the new R
+        if (this.sessionManager.setInterpreter(notebook.uri, interpreter)) {
+            this.resetSession(this.sessionManager.getSessionName(notebook.uri));
+            this.didChangeSessionEmitter.fire(notebook.uri);
         }
 
-        // Create a new terminal if none exists
-        if (!this.terminal || this.terminal.exitStatus !== undefined) {
-            this.terminal = vscode.window.createTerminal({
-                name: 'R',
-                shellPath: this.findRPath()
-            });
-            this.rSetupSourced = false;
+        // The serializer never sees the document URI, so cached outputs are
+        // restored once a controller is attached to the notebook
+        this.restoreOutputs(notebook, controller);
+    }
+
+    // The kernel picked last, else the default one, so that one is selected
+    // even when several R installations were discovered
+    private preferRemembered(notebook: vscode.NotebookDocument): void {
+        if (notebook.notebookType !== 'quarto-notebook') {
+            return;
         }
+        const remembered = this.workspaceState.get<RInterpreter>(INTERPRETER_STATE_KEY);
+        const kernel = (remembered && this.kernels.get(remembered.id)) ?? this.kernels.get('default')!;
+        kernel.controller.updateNotebookAffinity(notebook, vscode.NotebookControllerAffinity.Preferred);
+    }
 
-        return this.terminal;
+    // The controller selected for the notebook, else the default one
+    private getController(notebook: vscode.NotebookDocument): vscode.NotebookController {
+        return this.selectedControllers.get(notebook) ?? this.kernels.get('default')!.controller;
     }
 
-    private findRPath(): string {
-        // Check VSCode R extension settings first
-        const config = vscode.workspace.getConfiguration('r');
-        const rTermLinux = config.get<string>('rterm.linux');
-        const rTermMac = config.get<string>('rterm.mac');
-        const rTermWindows = config.get<string>('rterm.windows');
-
-        // Use platform-appropriate setting
-        const platform = process.platform;
-        let configuredPath: string | undefined;
-
-        if (platform === 'linux' && rTermLinux) {
-            configuredPath = rTermLinux;
-        } else if (platform === 'darwin' && rTermMac) {
-            configuredPath = rTermMac;
-        } else if (platform === 'win32' && rTermWindows) {
-            configuredPath = rTermWindows;
-        }
+    private restoreOutputs(notebook: vscode.NotebookDocument, controller: vscode.NotebookController): void {
+        for (const { cell, outputs } of this.outputCache.load(notebook)) {
+            // Never overwrite outputs produced in this session
+            if (cell.outputs.length > 0) {
+                continue;
+            }
 
-        if (configuredPath && fs.existsSync(configuredPath)) {
-            return configuredPath;
+            const execution = controller.createNotebookCellExecution(cell);
+            execution.start();
+            execution.replaceOutput(outputs);
+            execution.end(undefined);
         }
+    }
 
-        // Fallback to common paths
-        const possiblePaths = [
-            '/usr/bin/R',
-            '/usr/local/bin/R',
-            '/opt/homebrew/bin/R',
-            'R'
-        ];
-
-        for (const rPath of possiblePaths) {
-            if (rPath === 'R' || fs.existsSync(rPath)) {
-                return rPath;
-            }
+    private parseYamlOptions(notebook: vscode.NotebookDocument): DocumentOptions {
+        // Find the first markdown cell that might contain YAML front matter
+        const firstCell = notebook.getCells().find(c => c.kind === vscode.NotebookCellKind.Markup);
+        if (!firstCell) {
+            return {};
         }
 
-        return 'R';
+        return parseFrontMatterOptions(firstCell.document.getText());
     }
 
-    private async ensureRSetup(): Promise<void> {
-        const terminal = this.getOrCreateTerminal();
+    private async executeCell(
+        cells: vscode.NotebookCell[],
+        notebook: vscode.NotebookDocument,
+        controller: vscode.NotebookController
+    ): Promise<void> {
+        // Parse YAML options once per execution batch
+        const yamlOptions = this.parseYamlOptions(notebook);
 
-        // Check if terminal changed or was closed
-        if (this.rSetupSourced && this.terminal?.exitStatus !== undefined) {
-            // Terminal was closed, need to re-setup
-            this.rSetupSourced = false;
-            this.terminal = null;
-        }
+        // Cancelling any cell, or interrupting the notebook, cancels the whole batch
+        const batch = new vscode.CancellationTokenSource();
+        const batches = this.activeBatches.get(notebook) ?? new Set();
+        batches.add(batch);
+        this.activeBatches.set(notebook, batches);
+
+        // Create every execution up front so queued cells show as pending
+        const executions = cells.map(cell => controller.createNotebookCellExecution(cell));
+        cells.forEach(cell => this.queuedCells.add(cell));
+        const subscriptions = executions.map(execution => execution.token.onCancellationRequested(() => batch.cancel()));
+
+        // So does shutting down the session it runs in, when the notebook is
+        // bound to another session or switches kernels
+        const sessionName = this.sessionManager.getSessionName(notebook.uri);
+        subscriptions.push(this.sessionManager.onDidDisposeSession(name => {
+            if (name === sessionName) {
+                batch.cancel();
+            }
+        }));
 
-        // Check if the ready file exists - if not, R setup may have been lost
-        const outputDir = this.outputWatcher.getOutputDir();
-        const readyFile = path.join(outputDir, 'ready');
-        if (this.rSetupSourced && !fs.existsSync(readyFile)) {
-            // Ready file missing, need to re-setup
-            this.rSetupSourced = false;
-        }
+        let stoppedAt: vscode.NotebookCell | undefined;
+        let skipped = 0;
 
-        if (this.rSetupSourced) return;
+        try {
+            for (const [i, execution] of executions.entries()) {
+                if (batch.token.isCancellationRequested) {
+                    // Queued cells that never started go back to idle
+                    execution.end(undefined);
+                    continue;
+                }
 
-        // Start the output watcher
-        this.outputWatcher.start();
+                const success = await this.executeSingleCell(execution, yamlOptions, batch.token);
 
-        // Write setup code to a temp file (radian breaks on multi-line input)
-        const setupCode = `
-.quarto_inline <- new.env()
-.quarto_inline$output_dir <- "${outputDir.replace(/\\/g, '/')}"
-.quarto_inline$output_file <- file.path(.quarto_inline$output_dir, "output.txt")
-.quarto_inline$plot_dir <- file.path(.quarto_inline$output_dir, "plots")
-dir.create(.quarto_inline$plot_dir, showWarnings = FALSE, recursive = TRUE)
-if (file.exists(.quarto_inline$output_file)) file.remove(.quarto_inline$output_file)
+                // Stop at the first failing cell unless the chunk or document sets error: true
+                const remaining = executions.length - i - 1;
+                if (success === false && remaining > 0 &&
+                    !resolveExecutionOptions(execution.cell.metadata?.chunkOptions, yamlOptions).error) {
+                    stoppedAt = execution.cell;
+                    skipped = remaining;
+                    batch.cancel();
+                }
+            }
+        } finally {
+            cells.forEach(cell => this.queuedCells.delete(cell));
+            subscriptions.forEach(s => s.dispose());
+            batches.delete(batch);
+            if (batches.size === 0) {
+                this.activeBatches.delete(notebook);
+            }
+            batch.dispose();
+        }
 
-.quarto_inline$write_output <- function(type, content, cell_id = "none") {
-  cat("###", type, ":", cell_id, "###\\n", sep = "", file = .quarto_inline$output_file, append = TRUE)
-  cat(content, "\\n", sep = "", file = .quarto_inline$output_file, append = TRUE)
-  cat("###END###\\n", file = .quarto_inline$output_file, append = TRUE)
-}
+        this.outputCache.save(notebook);
 
-.quarto_inline$current_cell <- "none"
-
-globalCallingHandlers(
-  message = function(m) .quarto_inline$write_output("MESSAGE", trimws(conditionMessage(m)), .quarto_inline$current_cell),
-  warning = function(w) .quarto_inline$write_output("WARNING", trimws(conditionMessage(w)), .quarto_inline$current_cell)
-)
-
-.quarto_eval_cell <- function(code_text, cell_id) {
-  .quarto_inline$current_cell <- cell_id
-  .quarto_inline$write_output("CELL_START", "", cell_id)
-  tryCatch({
-    exprs <- parse(text = code_text)
-    for (expr in exprs) {
-      expr_text <- deparse(expr)
-      is_plot <- any(grepl("^(plot|hist|boxplot|barplot|pie|pairs|image|contour|persp|ggplot|geom_)", expr_text))
-      if (is_plot) {
-        plot_file <- file.path(.quarto_inline$plot_dir, paste0("plot_", cell_id, "_", format(Sys.time(), "%H%M%OS3"), ".png"))
-        png(plot_file, width = 800, height = 600, res = 100)
-        dev_id <- dev.cur()
-        result <- tryCatch({ res <- withVisible(eval(expr, envir = globalenv())); if (inherits(res$value, c("ggplot", "gg"))) print(res$value); res }, finally = { if (dev.cur() == dev_id) dev.off() })
-        if (file.exists(plot_file) && file.info(plot_file)$size > 0) .quarto_inline$write_output("PLOT", plot_file, cell_id)
-      } else {
-        out <- capture.output(result <- withVisible(eval(expr, envir = globalenv())))
-        if (length(out) > 0 && any(nzchar(out))) { .quarto_inline$write_output("OUTPUT", paste(out, collapse = "\\n"), cell_id); cat(out, sep = "\\n") }
-        if (result$visible && !is.null(result$value)) {
-          if (inherits(result$value, "gt_tbl") && requireNamespace("gt", quietly = TRUE)) { .quarto_inline$write_output("HTML", as.character(gt::as_raw_html(result$value)), cell_id); print(result$value) }
-          else if (inherits(result$value, "htmlwidget") && requireNamespace("htmlwidgets", quietly = TRUE)) { f <- tempfile(fileext = ".html"); htmlwidgets::saveWidget(result$value, f, selfcontained = TRUE); .quarto_inline$write_output("HTML", paste(readLines(f), collapse = "\\n"), cell_id); unlink(f) }
-          else if (length(out) == 0) { out2 <- capture.output(print(result$value)); if (length(out2) > 0) { .quarto_inline$write_output("OUTPUT", paste(out2, collapse = "\\n"), cell_id); cat(out2, sep = "\\n") } }
+        if (stoppedAt) {
+            this.reportStop(stoppedAt, skipped);
         }
-      }
     }
-  }, error = function(e) { .quarto_inline$write_output("ERROR", conditionMessage(e), cell_id); cat("Error:", conditionMessage(e), "\\n") })
-  .quarto_inline$write_output("CELL_END", "", cell_id)
-  .quarto_inline$current_cell <- "none"
-}
-cat("Quarto Inline ready\\n")
-# Signal that setup is complete
-cat("ready", file = "${readyFile.replace(/\\/g, '/')}")
-`;
-
-        // Write to temp file
-        const setupFile = path.join(outputDir, 'quarto_setup.R');
-        fs.mkdirSync(outputDir, { recursive: true });
-        fs.writeFileSync(setupFile, setupCode);
-
-        // Remove ready file if it exists
-        if (fs.existsSync(readyFile)) {
-            fs.unlinkSync(readyFile);
-        }
 
-        // Show terminal to ensure it's active
-        terminal.show(true);
+    private async reportStop(cell: vscode.NotebookCell, skipped: number): Promise<void> {
+        const label = cell.metadata?.chunkOptions?.label;
+        const name = label ? `'${label}' (cell ${cell.index + 1})` : `cell ${cell.index + 1}`;
 
-        // Wait for terminal/R to start up (radian needs time)
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
-        // Source the file
-        terminal.sendText(`source("${setupFile.replace(/\\/g, '/')}")`);
+        const choice = await vscode.window.showWarningMessage(
+            `Run stopped at ${name} after an error; ${skipped} queued cell(s) were not run. ` +
+            'Set error: true on the chunk or document to run past errors.',
+            'Show Cell'
+        );
 
-        // Wait for ready signal with timeout
-        const startTime = Date.now();
-        const timeout = 30000; // 30 seconds
-        while (!fs.existsSync(readyFile)) {
-            if (Date.now() - startTime > timeout) {
-                // Log diagnostics
-                console.error('Timeout waiting for R setup');
-                console.error('Setup file exists:', fs.existsSync(setupFile));
-                console.error('Output dir exists:', fs.existsSync(outputDir));
-                console.error('Ready file path:', readyFile);
-
-                // Try one more time
-                terminal.sendText(`source("${setupFile.replace(/\\/g, '/')}")`);
-                await new Promise(resolve => setTimeout(resolve, 5000));
-
-                if (!fs.existsSync(readyFile)) {
-                    throw new Error('Timeout waiting for R setup to complete. Make sure R is running in the terminal.');
-                }
-            }
-            await new Promise(resolve => setTimeout(resolve, 100));
+        const editor = vscode.window.visibleNotebookEditors.find(e => e.notebook === cell.notebook);
+        if (choice === 'Show Cell' && editor) {
+            const range = new vscode.NotebookRange(cell.index, cell.index + 1);
+            editor.selection = range;
+            editor.revealRange(range, vscode.NotebookEditorRevealType.InCenterIfOutsideViewport);
         }
+    }
 
-        this.rSetupSourced = true;
-        console.log('R setup complete');
+    private interrupt(notebook: vscode.NotebookDocument): void {
+        this.activeBatches.get(notebook)?.forEach(batch => batch.cancel());
     }
 
-    private parseYamlOptions(notebook: vscode.NotebookDocument): YamlOptions {
-        const defaultOptions: YamlOptions = {
-            echo: true,
-            message: true,
-            warning: true,
-            error: true
-        };
+    // Cancel execution in the session and replace its interpreters with fresh ones.
+    // Without a document every session is restarted.
+    public async restart(uri?: vscode.Uri): Promise<void> {
+        const name = uri && this.sessionManager.getSessionName(uri);
 
-        // Find the first markdown cell that might contain YAML front matter
-        const firstCell = notebook.getCells().find(c => c.kind === vscode.NotebookCellKind.Markup);
-        if (!firstCell) return defaultOptions;
+        // Notebooks sharing the session lose their running and queued cells too
+        this.activeBatches.forEach((batches, notebook) => {
+            if (!name || this.sessionManager.getSessionName(notebook.uri) === name) {
+                batches.forEach(batch => batch.cancel());
+            }
+        });
 
-        const content = firstCell.document.getText();
+        this.resetSession(name);
 
-        // Parse YAML front matter
-        const yamlMatch = content.match(/^---\n([\s\S]*?)\n---/);
-        if (!yamlMatch) return defaultOptions;
+        const sessions = uri ? this.sessionManager.getSessions(uri) : this.sessionManager.getAllSessions();
 
-        const yaml = yamlMatch[1];
+        await Promise.all(sessions.map(session => session.restart()));
+        this.didChangeSessionEmitter.fire(uri);
+    }
 
-        // Simple YAML parsing - support both singular and plural forms
-        const echoMatch = yaml.match(/echo:\s*(true|false)/i);
-        const messageMatch = yaml.match(/messages?:\s*(true|false)/i);
-        const warningMatch = yaml.match(/warnings?:\s*(true|false)/i);
-        const errorMatch = yaml.match(/errors?:\s*(true|false)/i);
+    // The session's interpreters start over: execution counts and the replay log
+    // too. Without a name every session does.
+    private resetSession(name?: string): void {
+        if (name) {
+            this.executionOrders.delete(name);
+        } else {
+            this.executionOrders.clear();
+        }
 
-        return {
-            echo: echoMatch ? echoMatch[1].toLowerCase() === 'true' : defaultOptions.echo,
-            message: messageMatch ? messageMatch[1].toLowerCase() === 'true' : defaultOptions.message,
-            warning: warningMatch ? warningMatch[1].toLowerCase() === 'true' : defaultOptions.warning,
-            error: errorMatch ? errorMatch[1].toLowerCase() === 'true' : defaultOptions.error
-        };
+        this.executionLog.getDocuments()
+            .filter(document => !name || this.sessionManager.getSessionName(document) === name)
+            .forEach(document => this.executionLog.markRestart(document));
     }
 
-    private async executeCell(
-        cells: vscode.NotebookCell[],
-        notebook: vscode.NotebookDocument,
-        _controller: vscode.NotebookController
-    ): Promise<void> {
-        // Parse YAML options once per execution batch
-        const yamlOptions = this.parseYamlOptions(notebook);
+    public async restartAndRunAll(notebook: vscode.NotebookDocument): Promise<void> {
+        await this.restart(notebook.uri);
+        this.clearOutputs(notebook);
 
-        for (const cell of cells) {
-            await this.executeSingleCell(cell, notebook, yamlOptions);
+        const cells = notebook.getCells().filter(cell => cell.kind === vscode.NotebookCellKind.Code);
+        await this.executeCell(cells, notebook, this.getController(notebook));
+    }
+
+    public clearOutputs(notebook: vscode.NotebookDocument): void {
+        for (const cell of notebook.getCells()) {
+            // Running and queued cells already have an execution of their own
+            if (cell.outputs.length === 0 || this.queuedCells.has(cell)) {
+                continue;
+            }
+
+            const execution = this.getController(notebook).createNotebookCellExecution(cell);
+            execution.start();
+            execution.clearOutput();
+            execution.end(undefined);
         }
+
+        // Drops the sidecar cache now that there is nothing to restore
+        this.outputCache.save(notebook);
     }
 
+    // Resolves with the cell's success, or undefined when it was interrupted
     private async executeSingleCell(
-        cell: vscode.NotebookCell,
-        notebook: vscode.NotebookDocument,
-        yamlOptions: YamlOptions
-    ): Promise<void> {
-        const execution = this.controller.createNotebookCellExecution(cell);
-        execution.executionOrder = ++this.executionOrder;
-        execution.start(Date.now());
+        execution: vscode.NotebookCellExecution,
+        yamlOptions: DocumentOptions,
+        token: vscode.CancellationToken
+    ): Promise<boolean | undefined> {
+        const cell = execution.cell;
+        const options = resolveExecutionOptions(cell.metadata?.chunkOptions, yamlOptions);
+
+        // Outputs carry the source they came from, for stale detection when reopened
+        const sourceHash = hashSource(cell);
+        const order = this.nextExecutionOrder(cell.notebook.uri);
+        execution.executionOrder = order;
+        const startTime = Date.now();
+        execution.start(startTime);
         execution.clearOutput();
 
-        try {
-            // Ensure R is set up
-            await this.ensureRSetup();
-
-            const terminal = this.getOrCreateTerminal();
-            terminal.show(true); // Show terminal, preserve focus
+        if (!options.eval) {
+            execution.replaceOutput(markSource([new vscode.NotebookCellOutput([
+                vscode.NotebookCellOutputItem.text('Not evaluated (eval: false)')
+            ])], sourceHash));
+            execution.end(undefined, Date.now());
+            return undefined;
+        }
 
-            // Generate unique cell ID
-            const cellId = `cell_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        // echo: false and include: false hide the code, as in the rendered document
+        if (!options.echo || !options.include) {
+            vscode.commands.executeCommand('notebook.cell.collapseCellInput', {
+                ranges: [{ start: cell.index, end: cell.index + 1 }],
+                document: cell.notebook.uri
+            }).then(undefined, () => undefined);
+        }
 
-            // Clear any previous output for this cell
-            this.outputWatcher.clearCellOutput(cellId);
+        // Show outputs while the cell runs; the final result replaces them, so
+        // the order is the same as if nothing had been streamed. Captions need
+        // the figure's position, so they only appear in the final result.
+        let lastPlot: vscode.NotebookCellOutput | undefined;
+        let printed: { output: vscode.NotebookCellOutput; text: string } | undefined;
+        const appendOutput = (output: CellOutput) => {
+            // Printed text continues the text output it follows
+            if (output.stream && printed) {
+                printed.text += output.content;
+                const [merged] = cellOutputsToNotebookOutput([{ ...output, content: printed.text }], options);
+                execution.replaceOutputItems(merged.items, printed.output);
+                return;
+            }
 
-            // Get the code to execute
-            const code = cell.document.getText();
+            const update = output.type === 'PLOT_UPDATE';
+            const notebookOutputs = cellOutputsToNotebookOutput(
+                visibleOutputs([update ? { ...output, type: 'PLOT' } : output], options),
+                { ...options, figCap: undefined }
+            );
 
-            // Escape the code for R string
-            const escapedCode = code.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+            // Drawing more on a page already shown redraws its image
+            if (update && lastPlot && notebookOutputs.length > 0) {
+                execution.replaceOutputItems(notebookOutputs[0].items, lastPlot);
+                return;
+            }
+            if (output.type === 'PLOT' || update) {
+                lastPlot = notebookOutputs[0] ?? lastPlot;
+            }
+            printed = output.stream && notebookOutputs[0] ? { output: notebookOutputs[0], text: output.content } : undefined;
+            execution.appendOutput(markSource(notebookOutputs, sourceHash));
+        };
 
-            // Send code to terminal using our eval wrapper
-            terminal.sendText(`.quarto_eval_cell("${escapedCode}", "${cellId}")`);
+        const record = (success: boolean | undefined) => this.executionLog.record(cell.notebook.uri, {
+            order,
+            language: cell.document.languageId,
+            code: cell.document.getText(),
+            label: cell.metadata?.chunkOptions?.label,
+            cellIndex: cell.index,
+            timestamp: startTime,
+            success
+        });
 
-            // Wait for output with timeout
-            const timeoutPromise = new Promise<never>((_, reject) => {
-                setTimeout(() => reject(new Error('Execution timeout')), 60000);
+        try {
+            const outputs = await this.evaluate(
+                cell.notebook.uri,
+                cell.document.getText(),
+                options,
+                cell.document.languageId,
+                token,
+                appendOutput
+            );
+
+            // Convert to notebook outputs; the timing travels with them into the cache
+            const timing = cellTiming(outputs, Date.now() - startTime);
+            this.cellTimings.set(cell, timing);
+            const notebookOutputs = cellOutputsToNotebookOutput(visibleOutputs(outputs, options), options);
+            notebookOutputs.forEach(output => {
+                output.metadata = { ...output.metadata, [TIMING_METADATA_KEY]: timing };
             });
+            execution.replaceOutput(markSource(notebookOutputs, sourceHash));
 
-            const outputs = await Promise.race([
-                this.outputWatcher.waitForCell(cellId, yamlOptions),
-                timeoutPromise
-            ]);
-
-            // Convert to notebook outputs
-            const notebookOutputs = cellOutputsToNotebookOutput(outputs);
-
-            if (notebookOutputs.length > 0) {
-                execution.replaceOutput(notebookOutputs);
-            }
-
-            execution.end(true, Date.now());
+            // Interrupted cells are neither a success nor a failure
+            const success = outputs.some(o => o.type === 'INTERRUPTED')
+                ? undefined
+                : !outputs.some(o => o.type === 'ERROR');
+            execution.end(success, Date.now());
+            record(success);
+            return success;
 
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             const errorOutput = new vscode.NotebookCellOutput([
                 vscode.NotebookCellOutputItem.error(new Error(errorMessage))
             ]);
-            execution.replaceOutput(errorOutput);
+            execution.replaceOutput(markSource([errorOutput], sourceHash));
             execution.end(false, Date.now());
+            record(false);
+            return false;
+        }
+    }
+
+    // Execution order counts per session, like a Jupyter kernel
+    public nextExecutionOrder(uri: vscode.Uri): number {
+        const name = this.sessionManager.getSessionName(uri);
+        const order = (this.executionOrders.get(name) ?? 0) + 1;
+        this.executionOrders.set(name, order);
+        return order;
+    }
+
+    // Run code in the document's session for the language and collect its outputs
+    public async evaluate(
+        uri: vscode.Uri,
+        code: string,
+        yamlOptions?: Partial<ExecutionOptions>,
+        language: string = 'r',
+        token?: vscode.CancellationToken,
+        onOutput?: (output: CellOutput) => void
+    ): Promise<CellOutput[]> {
+        try {
+            return await this.sessionManager.getSession(uri, language).evaluate(code, yamlOptions, token, onOutput);
+        } finally {
+            this.didChangeSessionEmitter.fire(uri);
         }
     }
 
     dispose(): void {
-        this.outputWatcher.stop();
-        this.controller.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.didChangeSessionEmitter.dispose();
+        this.executionLog.dispose();
     }
 }
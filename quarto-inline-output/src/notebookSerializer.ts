@@ -1,5 +1,15 @@
 import * as vscode from 'vscode';
-import { parseChunks, CodeChunk } from './chunkParser';
+import { parseChunks, formatHeaderOptions, formatHashPipeOptions, splitLines, CodeChunk } from './chunkParser';
+
+// Original text kept in cell metadata so an unmodified open/save is byte-identical
+interface CellSource {
+    // Whitespace between the previous cell and this one
+    before?: string;
+    // Whitespace after the last cell of the document
+    after?: string;
+    // Full text of a code chunk, fences included
+    raw?: string;
+}
 
 export class QuartoNotebookSerializer implements vscode.NotebookSerializer {
     async deserializeNotebook(
@@ -10,23 +20,35 @@ export class QuartoNotebookSerializer implements vscode.NotebookSerializer {
         const chunks = parseChunks(text);
 
         const cells: vscode.NotebookCellData[] = [];
-        const lines = text.split('\n');
+        const lineOffsets = getLineOffsets(text);
 
-        let currentLine = 0;
+        // Whitespace not yet attached to a cell
+        let pending = '';
+        let position = 0;
+
+        const addGap = (gap: string) => {
+            const [leading, body, trailing] = splitBlankLines(gap);
+            if (!body) {
+                pending += gap;
+                return;
+            }
+
+            const cellData = new vscode.NotebookCellData(
+                vscode.NotebookCellKind.Markup,
+                body,
+                'markdown'
+            );
+            cellData.metadata = { source: { before: pending + leading } };
+            cells.push(cellData);
+            pending = trailing;
+        };
 
         for (const chunk of chunks) {
+            const start = lineOffsets[chunk.startLine];
+            const end = lineOffsets[chunk.endLine] + lineLength(text, lineOffsets[chunk.endLine]);
+
             // Add markdown cell before this code chunk
-            if (chunk.startLine > currentLine) {
-                const markdownLines = lines.slice(currentLine, chunk.startLine);
-                const markdownText = markdownLines.join('\n');
-                if (markdownText.trim()) {
-                    cells.push(new vscode.NotebookCellData(
-                        vscode.NotebookCellKind.Markup,
-                        markdownText,
-                        'markdown'
-                    ));
-                }
-            }
+            addGap(text.slice(position, start));
 
             // Add code cell with metadata
             const cellData = new vscode.NotebookCellData(
@@ -34,28 +56,25 @@ export class QuartoNotebookSerializer implements vscode.NotebookSerializer {
                 chunk.code,
                 chunk.language
             );
-
-            // Store chunk options in metadata
-            if (chunk.options && Object.keys(chunk.options).length > 0) {
-                cellData.metadata = { chunkOptions: chunk.options };
-            }
-
+            cellData.metadata = {
+                ...chunkMetadata(chunk),
+                source: { before: pending, raw: text.slice(start, end) }
+            };
             cells.push(cellData);
 
-            currentLine = chunk.endLine + 1;
+            pending = '';
+            position = end;
         }
 
         // Add remaining markdown after last chunk
-        if (currentLine < lines.length) {
-            const markdownLines = lines.slice(currentLine);
-            const markdownText = markdownLines.join('\n');
-            if (markdownText.trim()) {
-                cells.push(new vscode.NotebookCellData(
-                    vscode.NotebookCellKind.Markup,
-                    markdownText,
-                    'markdown'
-                ));
-            }
+        addGap(text.slice(position));
+        if (cells.length > 0) {
+            cells[cells.length - 1].metadata!.source.after = pending;
+        } else if (pending) {
+            // Whitespace-only document
+            const cellData = new vscode.NotebookCellData(vscode.NotebookCellKind.Markup, '', 'markdown');
+            cellData.metadata = { source: { before: pending } };
+            cells.push(cellData);
         }
 
         return new vscode.NotebookData(cells);
@@ -65,50 +84,191 @@ export class QuartoNotebookSerializer implements vscode.NotebookSerializer {
         data: vscode.NotebookData,
         _token: vscode.CancellationToken
     ): Promise<Uint8Array> {
-        const parts: string[] = [];
+        let output = '';
+        const eol = lineEnding(data);
 
         for (let i = 0; i < data.cells.length; i++) {
             const cell = data.cells[i];
-            const isFirstCell = i === 0;
-            const isLastCell = i === data.cells.length - 1;
+            const source: CellSource = cell.metadata?.source ?? {};
+
+            // New cells get a blank line between them and their neighbours
+            if (source.before !== undefined) {
+                output += source.before;
+            } else if (i > 0 && !output.endsWith(eol + eol)) {
+                output += output.endsWith(eol) ? eol : eol + eol;
+            }
 
             if (cell.kind === vscode.NotebookCellKind.Markup) {
                 // Markdown cells written as-is
-                parts.push(cell.value);
+                output += cell.value;
             } else if (cell.kind === vscode.NotebookCellKind.Code) {
-                // Add blank line before code fence if previous cell doesn't end with double newline
-                if (!isFirstCell && !parts[parts.length - 1].endsWith('\n\n')) {
-                    if (parts[parts.length - 1].endsWith('\n')) {
-                        parts.push('\n');
-                    } else {
-                        parts.push('\n\n');
-                    }
-                }
-
-                // Build chunk header with options
-                let chunkHeader = `\`\`\`{${cell.languageId}`;
-
-                if (cell.metadata?.chunkOptions) {
-                    const options = Object.entries(cell.metadata.chunkOptions)
-                        .map(([key, value]) => `${key}=${value}`)
-                        .join(', ');
-                    chunkHeader += ` ${options}`;
-                }
-
-                chunkHeader += '}';
-
-                // Code cells wrapped in fences with newlines
-                parts.push(`${chunkHeader}\n`);
-                parts.push(cell.value);
-                parts.push('\n```');
-
-                // Add blank line after code fence if not the last cell
-                if (!isLastCell) {
-                    parts.push('\n');
-                }
+                output += serializeCodeCell(cell, eol);
             }
         }
 
-        return Buffer.from(parts.join(''), 'utf-8');
+        // Trailing whitespace of the document, even if cells were added after the original last cell
+        const last = [...data.cells].reverse().find(cell => cell.metadata?.source?.after !== undefined);
+        if (last) {
+            output += last.metadata!.source.after;
+        }
+
+        return Buffer.from(output, 'utf-8');
+    }
+}
+
+function chunkMetadata(chunk: CodeChunk): Record<string, any> {
+    const metadata: Record<string, any> = {};
+
+    // Store chunk options in metadata, remembering which were hash-pipe lines
+    if (chunk.options && Object.keys(chunk.options).length > 0) {
+        metadata.chunkOptions = chunk.options;
+        if (chunk.hashPipeKeys) {
+            metadata.hashPipeKeys = chunk.hashPipeKeys;
+        }
+    }
+
+    // Only non-default fences are recorded
+    if (chunk.fence && chunk.fence !== '```') {
+        metadata.fence = chunk.fence;
+    }
+    if (chunk.indent) {
+        metadata.indent = chunk.indent;
+    }
+
+    return metadata;
+}
+
+// CRLF when the document was read with CRLF line endings, so new and edited
+// chunks match the rest of the file
+function lineEnding(data: vscode.NotebookData): string {
+    const crlf = data.cells.some(cell => {
+        const source: CellSource = cell.metadata?.source ?? {};
+        return [source.before, source.raw, source.after].some(text => text?.includes('\r\n'));
+    });
+    return crlf ? '\r\n' : '\n';
+}
+
+// Reuse as much of the original chunk text as the edits allow
+function serializeCodeCell(cell: vscode.NotebookCellData, eol: string): string {
+    const raw: string | undefined = cell.metadata?.source?.raw;
+    const original = raw !== undefined ? parseChunks(raw)[0] : undefined;
+
+    const options: Record<string, any> = cell.metadata?.chunkOptions ?? {};
+    const hashPipeKeys: string[] = cell.metadata?.hashPipeKeys ?? [];
+    const fence = chooseFence(cell.metadata?.fence ?? '```', cell.value);
+    const indent = ' '.repeat(cell.metadata?.indent ?? 0);
+
+    // Split options back into header and hash-pipe style
+    const [headerOptions, hashPipeOptions] = partitionOptions(options, hashPipeKeys);
+
+    let rawLines: string[] = [];
+    let sameHeader = false;
+    let sameHashPipe = false;
+    let sameCode = false;
+
+    if (raw !== undefined && original) {
+        const [originalHeader, originalHashPipe] = partitionOptions(original.options ?? {}, original.hashPipeKeys ?? []);
+
+        rawLines = splitLines(raw);
+        sameHeader = original.language === cell.languageId &&
+            original.fence === fence &&
+            sameValue(originalHeader, headerOptions);
+        sameHashPipe = sameValue(originalHashPipe, hashPipeOptions);
+        sameCode = original.code === cell.value;
+
+        if (sameHeader && sameHashPipe && sameCode) {
+            return raw;
+        }
+    }
+
+    // Build chunk header with options
+    let chunkHeader = `${indent}${fence}{${cell.languageId}`;
+    if (Object.keys(headerOptions).length > 0) {
+        chunkHeader += ` ${formatHeaderOptions(headerOptions)}`;
+    }
+    chunkHeader += '}';
+
+    const bodyLines = rawLines.slice(1, -1);
+    const optionLineCount = bodyLines.findIndex(line => !/^\s*#\|/.test(line));
+    const rawOptionLines = bodyLines.slice(0, optionLineCount < 0 ? bodyLines.length : optionLineCount);
+    const rawCodeLines = bodyLines.slice(rawOptionLines.length);
+
+    const addIndent = (text: string) => indent ? text.replace(/^(?=.)/gm, indent) : text;
+    const code = splitLines(cell.value).join(eol);
+
+    const lines = [
+        sameHeader ? rawLines[0] : chunkHeader,
+        ...(sameHashPipe ? rawOptionLines : formatHashPipeOptions(hashPipeOptions).map(addIndent)),
+        ...(sameCode ? rawCodeLines : [addIndent(code)]),
+        sameHeader ? rawLines[rawLines.length - 1] : `${indent}${fence}`
+    ];
+
+    return lines.join(eol);
+}
+
+function partitionOptions(options: Record<string, any>, hashPipeKeys: string[]): [Record<string, any>, Record<string, any>] {
+    const headerOptions: Record<string, any> = {};
+    const hashPipeOptions: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(options)) {
+        if (hashPipeKeys.includes(key)) {
+            hashPipeOptions[key] = value;
+        } else {
+            headerOptions[key] = value;
+        }
+    }
+
+    return [headerOptions, hashPipeOptions];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Separate leading and trailing blank lines from the text between chunks
+function splitBlankLines(text: string): [string, string, string] {
+    // Whitespace-only text has no body; keep it all as leading
+    if (!text.trim()) {
+        return [text, '', ''];
+    }
+
+    const leading = text.match(/^(?:[ \t]*\r?\n)*/)![0];
+    const rest = text.slice(leading.length);
+    const trailing = rest.match(/(?:\r?\n[ \t]*)*$/)![0];
+
+    return [leading, rest.slice(0, rest.length - trailing.length), trailing];
+}
+
+function getLineOffsets(text: string): number[] {
+    const offsets = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            offsets.push(i + 1);
+        }
+    }
+    return offsets;
+}
+
+// Up to the line's LF or CRLF
+function lineLength(text: string, offset: number): number {
+    const end = text.indexOf('\n', offset);
+    if (end < 0) {
+        return text.length - offset;
     }
+    return (text[end - 1] === '\r' ? end - 1 : end) - offset;
+}
+
+// Lengthen the fence if the cell now contains a line that would close it early
+function chooseFence(fence: string, code: string): string {
+    const char = fence[0];
+    let length = fence.length;
+
+    for (const line of code.split('\n')) {
+        const run = line.trim();
+        if (run.length >= length && run === char.repeat(run.length)) {
+            length = run.length + 1;
+        }
+    }
+
+    return char.repeat(length);
 }
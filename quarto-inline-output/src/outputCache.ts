@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+interface CachedOutputItem {
+    mime: string;
+    // Base64-encoded item data
+    data: string;
+}
+
+interface CachedOutput {
+    items: CachedOutputItem[];
+    metadata?: Record<string, any>;
+}
+
+interface CachedCell {
+    key: string;
+    sourceHash: string;
+    outputs: CachedOutput[];
+}
+
+interface CacheFile {
+    version: number;
+    cells: CachedCell[];
+}
+
+export interface RestoredCell {
+    cell: vscode.NotebookCell;
+    outputs: vscode.NotebookCellOutput[];
+    stale: boolean;
+}
+
+const CACHE_VERSION = 1;
+
+// Output metadata key marking outputs that were loaded from the cache
+export const CACHE_METADATA_KEY = 'quartoCache';
+
+// Output metadata key holding the hash of the cell source the output was produced from
+export const SOURCE_METADATA_KEY = 'quartoSourceHash';
+
+// Sidecar store of notebook outputs: <dir>/.quarto/inline-output/<file>.json
+export class OutputCache {
+    public getCachePath(uri: vscode.Uri): string {
+        const dir = path.dirname(uri.fsPath);
+        return path.join(dir, '.quarto', 'inline-output', `${path.basename(uri.fsPath)}.json`);
+    }
+
+    public save(notebook: vscode.NotebookDocument): void {
+        if (notebook.uri.scheme !== 'file') {
+            return;
+        }
+
+        const cells: CachedCell[] = [];
+
+        codeCells(notebook).forEach((cell, index) => {
+            if (cell.outputs.length === 0) {
+                return;
+            }
+
+            // The hash recorded when the outputs were produced, so a cell edited
+            // since is stale when reopened; outputs without one are not cached
+            const outputs = cell.outputs.filter(o => !o.metadata?.[CACHE_METADATA_KEY]?.stale);
+            const sourceHash: string | undefined = outputs.find(o => o.metadata?.[SOURCE_METADATA_KEY])?.metadata?.[SOURCE_METADATA_KEY];
+            if (!sourceHash) {
+                return;
+            }
+
+            cells.push({
+                key: cellKey(cell, index),
+                sourceHash,
+                outputs: outputs.map(output => ({
+                    items: output.items.map(item => ({
+                        mime: item.mime,
+                        data: Buffer.from(item.data).toString('base64')
+                    })),
+                    metadata: output.metadata
+                }))
+            });
+        });
+
+        const cachePath = this.getCachePath(notebook.uri);
+
+        try {
+            if (cells.length === 0) {
+                if (fs.existsSync(cachePath)) {
+                    fs.unlinkSync(cachePath);
+                }
+                return;
+            }
+
+            const file: CacheFile = { version: CACHE_VERSION, cells };
+            fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+            fs.writeFileSync(cachePath, JSON.stringify(file));
+        } catch (error) {
+            console.error('Failed to write output cache:', cachePath, error);
+        }
+    }
+
+    public load(notebook: vscode.NotebookDocument): RestoredCell[] {
+        const cachePath = this.getCachePath(notebook.uri);
+        if (notebook.uri.scheme !== 'file' || !fs.existsSync(cachePath)) {
+            return [];
+        }
+
+        let file: CacheFile;
+        try {
+            file = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+        } catch (error) {
+            console.error('Failed to read output cache:', cachePath, error);
+            return [];
+        }
+
+        if (file.version !== CACHE_VERSION) {
+            return [];
+        }
+
+        const unused = new Set(file.cells);
+        const restored: RestoredCell[] = [];
+
+        codeCells(notebook).forEach((cell, index) => {
+            const sourceHash = hashSource(cell);
+            const key = cellKey(cell, index);
+
+            // Prefer the cell identity, then an unchanged cell that moved
+            const entry = [...unused].find(c => c.key === key) ??
+                [...unused].find(c => c.sourceHash === sourceHash);
+            if (!entry) {
+                return;
+            }
+            unused.delete(entry);
+
+            const stale = entry.sourceHash !== sourceHash;
+            const outputs = entry.outputs.map(output => new vscode.NotebookCellOutput(
+                output.items.map(item => new vscode.NotebookCellOutputItem(Buffer.from(item.data, 'base64'), item.mime)),
+                { ...output.metadata, [SOURCE_METADATA_KEY]: entry.sourceHash, [CACHE_METADATA_KEY]: { restored: true } }
+            ));
+
+            if (stale) {
+                outputs.unshift(new vscode.NotebookCellOutput(
+                    [vscode.NotebookCellOutputItem.text('⚠ Stale output: the cell source changed since this output was produced.')],
+                    { [CACHE_METADATA_KEY]: { stale: true } }
+                ));
+            }
+
+            restored.push({ cell, outputs, stale });
+        });
+
+        return restored;
+    }
+}
+
+function codeCells(notebook: vscode.NotebookDocument): vscode.NotebookCell[] {
+    return notebook.getCells().filter(cell => cell.kind === vscode.NotebookCellKind.Code);
+}
+
+// Labelled chunks are matched by label, others by their position among code cells
+function cellKey(cell: vscode.NotebookCell, index: number): string {
+    const label = cell.metadata?.chunkOptions?.label;
+    return label ? `label:${label}` : `index:${index}`;
+}
+
+// Record on outputs the hash of the source they were produced from
+export function markSource(outputs: vscode.NotebookCellOutput[], sourceHash: string): vscode.NotebookCellOutput[] {
+    outputs.forEach(output => {
+        output.metadata = { ...output.metadata, [SOURCE_METADATA_KEY]: sourceHash };
+    });
+    return outputs;
+}
+
+export function hashSource(cell: vscode.NotebookCell): string {
+    return crypto
+        .createHash('sha256')
+        .update(`${cell.document.languageId}\n${cell.document.getText()}`)
+        .digest('hex');
+}
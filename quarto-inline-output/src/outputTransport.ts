@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as crypto from 'crypto';
+import { StringDecoder } from 'string_decoder';
+
+export type TransportKind = 'file' | 'socket';
+
+// Where the interpreter connects to push its output
+export interface SocketEndpoint {
+    port: number;
+    token: string; // first line the interpreter sends, so no other local process can write
+}
+
+// Carries the raw text the interpreter writes to the OutputWatcher
+export interface OutputTransport {
+    /**
+     * Start receiving; onData is called with the text in the order it was written
+     */
+    start(onData: (text: string) => void): Promise<void>;
+
+    /**
+     * Deliver anything already written but not yet passed on
+     */
+    drain(): void;
+
+    /**
+     * Forget everything written so far
+     */
+    reset(): void;
+
+    stop(): void;
+
+    describe(): string;
+}
+
+// The interpreter appends to a file that is polled for new bytes. With resume,
+// a file the interpreter already has open is kept and read from its start.
+export class FileTransport implements OutputTransport {
+    private position: number = 0;
+    private decoder = new StringDecoder('utf8');
+    private pollInterval: NodeJS.Timeout | null = null;
+    private onData: ((text: string) => void) | null = null;
+
+    constructor(private file: string, private resume: boolean = false) {}
+
+    public async start(onData: (text: string) => void): Promise<void> {
+        this.onData = onData;
+
+        // Start from an empty file, unless the interpreter is writing to this one
+        if (!this.resume && fs.existsSync(this.file)) {
+            fs.unlinkSync(this.file);
+        }
+        if (!fs.existsSync(this.file)) {
+            fs.writeFileSync(this.file, '');
+        }
+        this.position = 0;
+        this.decoder = new StringDecoder('utf8');
+
+        // Use polling instead of fs.watch (more reliable on Linux)
+        this.pollInterval = setInterval(() => this.drain(), 100);
+    }
+
+    // Read only the bytes appended since the last poll
+    public drain(): void {
+        if (!this.onData || !fs.existsSync(this.file)) {
+            return;
+        }
+
+        try {
+            const size = fs.statSync(this.file).size;
+            if (size < this.position) {
+                // Truncated behind our back: start over
+                this.position = 0;
+                this.decoder = new StringDecoder('utf8');
+            }
+            if (size === this.position) {
+                return;
+            }
+
+            const buffer = Buffer.alloc(size - this.position);
+            const fd = fs.openSync(this.file, 'r');
+            try {
+                fs.readSync(fd, buffer, 0, buffer.length, this.position);
+            } finally {
+                fs.closeSync(fd);
+            }
+            this.position = size;
+
+            // The decoder holds back a character split across two reads
+            this.onData(this.decoder.write(buffer));
+        } catch (error) {
+            console.error('Error reading output file:', error);
+        }
+    }
+
+    public reset(): void {
+        this.position = 0;
+        this.decoder = new StringDecoder('utf8');
+        if (fs.existsSync(this.file)) {
+            fs.writeFileSync(this.file, '');
+        }
+    }
+
+    public stop(): void {
+        if (this.pollInterval) {
+            clearInterval(this.pollInterval);
+            this.pollInterval = null;
+        }
+        this.onData = null;
+    }
+
+    public describe(): string {
+        return `polling ${this.file}`;
+    }
+}
+
+// The interpreter connects to a localhost TCP server and pushes output as it is written
+export class SocketTransport implements OutputTransport {
+    private server: net.Server | null = null;
+    private sockets: Set<net.Socket> = new Set();
+    private endpoint: SocketEndpoint | undefined;
+
+    public async start(onData: (text: string) => void): Promise<void> {
+        const token = crypto.randomBytes(16).toString('hex');
+        const server = net.createServer(socket => this.accept(socket, token, onData));
+        this.server = server;
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(0, '127.0.0.1', () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        server.on('error', error => console.error('Output socket server error:', error));
+
+        this.endpoint = { port: (server.address() as net.AddressInfo).port, token };
+    }
+
+    private accept(socket: net.Socket, token: string, onData: (text: string) => void): void {
+        const decoder = new StringDecoder('utf8');
+        let handshake: string | undefined = '';
+
+        this.sockets.add(socket);
+        socket.on('close', () => this.sockets.delete(socket));
+        socket.on('error', error => console.error('Output socket error:', error));
+
+        socket.on('data', data => {
+            const text = decoder.write(data);
+            if (handshake === undefined) {
+                onData(text);
+                return;
+            }
+
+            // The first line must be the token
+            handshake += text;
+            const newline = handshake.indexOf('\n');
+            if (newline < 0) {
+                if (handshake.length > token.length + 1) {
+                    socket.destroy();
+                }
+                return;
+            }
+            if (handshake.slice(0, newline).trim() !== token) {
+                console.error('Output socket: rejected a connection with a wrong token');
+                socket.destroy();
+                return;
+            }
+
+            const rest = handshake.slice(newline + 1);
+            handshake = undefined;
+            if (rest) {
+                onData(rest);
+            }
+        });
+    }
+
+    public getEndpoint(): SocketEndpoint | undefined {
+        return this.endpoint;
+    }
+
+    // Data is passed on as it arrives
+    public drain(): void {}
+
+    public reset(): void {}
+
+    public stop(): void {
+        this.sockets.forEach(socket => socket.destroy());
+        this.sockets.clear();
+        this.server?.close();
+        this.server = null;
+        this.endpoint = undefined;
+    }
+
+    public describe(): string {
+        return this.endpoint ? `listening on 127.0.0.1:${this.endpoint.port}` : 'socket (not listening)';
+    }
+}
@@ -1,15 +1,34 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
+import { ExecutionOptions } from './chunkParser';
+import { FileTransport, OutputTransport, SocketEndpoint, SocketTransport, TransportKind } from './outputTransport';
+import { MessageParser } from './protocol';
 
-interface CellOutput {
-    type: 'OUTPUT' | 'MESSAGE' | 'WARNING' | 'ERROR' | 'PLOT' | 'HTML' | 'CELL_START' | 'CELL_END';
+export interface CellOutput {
+    type: 'OUTPUT' | 'MESSAGE' | 'WARNING' | 'ERROR' | 'PLOT' | 'PLOT_UPDATE' | 'HTML' | 'DATAFRAME' | 'VIEW' | 'TIMING' | 'INTERRUPTED' | 'CELL_START' | 'CELL_END';
     content: string;
     cellId: string;
+    // The image of a PLOT, read when it arrives; its file is removed then
+    data?: Buffer;
+    // Text the cell printed, in pieces as it was written; consecutive pieces
+    // make up one OUTPUT
+    stream?: boolean;
 }
 
-interface YamlOptions {
+// Shown by the data frame renderer in media/dataFrameRenderer.js
+export const DATA_FRAME_MIME = 'application/vnd.quarto-inline.dataframe+json';
+
+// A data frame as sent by the session, with only its first rows
+export interface DataFrameTable {
+    nrow: number;
+    columns: { name: string; type: string }[];
+    rowNames: string[] | null;
+    rows: (string | number | boolean | null)[][];
+    text: string;
+}
+
+export interface YamlOptions {
     echo: boolean;
     message: boolean;
     warning: boolean;
@@ -20,10 +39,17 @@ export class OutputWatcher {
     private outputDir: string;
     private outputFile: string;
     private plotDir: string;
-    private watcher: fs.FSWatcher | null = null;
-    private lastPosition: number = 0;
+    private transport: OutputTransport | null = null;
+    private parser = new MessageParser();
     private cellOutputs: Map<string, CellOutput[]> = new Map();
     private cellCallbacks: Map<string, (outputs: CellOutput[]) => void> = new Map();
+    private cellListeners: Map<string, (output: CellOutput) => void> = new Map();
+    // Cancelled cells whose late output is dropped until they end
+    private cancelledCells: Set<string> = new Set();
+    // Requests from the interpreter that belong to no cell output, e.g. View()
+    public onSessionEvent?: (event: CellOutput) => void;
+    // Translates file paths written by the interpreter, e.g. inside a container
+    public resolvePath?: (file: string) => string;
     private defaultYamlOptions: YamlOptions = {
         echo: true,
         message: true,
@@ -31,8 +57,8 @@ export class OutputWatcher {
         error: true
     };
 
-    constructor() {
-        this.outputDir = path.join(os.tmpdir(), 'quarto-inline');
+    constructor(outputDir: string) {
+        this.outputDir = outputDir;
         this.outputFile = path.join(this.outputDir, 'output.txt');
         this.plotDir = path.join(this.outputDir, 'plots');
     }
@@ -41,58 +67,107 @@ export class OutputWatcher {
         return this.outputDir;
     }
 
-    private pollInterval: NodeJS.Timeout | null = null;
+    // Start receiving output over the given transport. A socket that cannot be
+    // opened falls back to the output file. With resume, the output file the
+    // interpreter already writes to is read from its start instead of replaced.
+    public async start(kind: TransportKind = 'file', resume: boolean = false): Promise<void> {
+        // Never keep two transports running
+        this.stop();
 
-    public start(): void {
         // Ensure directory exists
         if (!fs.existsSync(this.outputDir)) {
             fs.mkdirSync(this.outputDir, { recursive: true });
         }
 
-        // Clear any existing output file
-        if (fs.existsSync(this.outputFile)) {
+        // An interpreter that cannot connect to the socket appends to the output
+        // file: leave nothing from an earlier session in it
+        if (kind === 'socket' && fs.existsSync(this.outputFile)) {
             fs.unlinkSync(this.outputFile);
         }
-        fs.writeFileSync(this.outputFile, '');
-        this.lastPosition = 0;
 
-        // Use polling instead of fs.watch (more reliable on Linux)
-        this.pollInterval = setInterval(() => {
-            this.processNewOutput();
-        }, 100); // Poll every 100ms
+        this.parser.reset();
+        const onData = (text: string) => this.processNewOutput(text);
+        let transport: OutputTransport = kind === 'socket' ? new SocketTransport() : new FileTransport(this.outputFile, resume);
+        // Set before the first await so a second start() stops this one
+        this.transport = transport;
+        try {
+            await transport.start(onData);
+        } catch (error) {
+            console.error('OutputWatcher: could not open the output socket, using the output file:', error);
+            transport = new FileTransport(this.outputFile);
+            this.transport = transport;
+            await transport.start(onData);
+        }
+
+        console.log('OutputWatcher started,', transport.describe());
+    }
 
-        console.log('OutputWatcher started, polling:', this.outputFile);
+    // Where the interpreter should connect, when output comes over a socket
+    public getSocketEndpoint(): SocketEndpoint | undefined {
+        return this.transport instanceof SocketTransport ? this.transport.getEndpoint() : undefined;
     }
 
     public stop(): void {
-        if (this.watcher) {
-            this.watcher.close();
-            this.watcher = null;
-        }
-        if (this.pollInterval) {
-            clearInterval(this.pollInterval);
-            this.pollInterval = null;
-        }
+        this.transport?.stop();
+        this.transport = null;
     }
 
-    public waitForCell(cellId: string, yamlOptions?: Partial<YamlOptions>): Promise<CellOutput[]> {
+    // Resolves with the cell's outputs once it ends. onOutput is called with each
+    // output, in order, as soon as it is read while the cell is still running.
+    public waitForCell(
+        cellId: string,
+        yamlOptions?: Partial<YamlOptions>,
+        onOutput?: (output: CellOutput) => void
+    ): Promise<CellOutput[]> {
         const options = { ...this.defaultYamlOptions, ...yamlOptions };
 
         return new Promise((resolve) => {
             // Check if we already have complete output for this cell
             const existing = this.cellOutputs.get(cellId);
             if (existing && existing.some(o => o.type === 'CELL_END')) {
-                resolve(this.filterOutputs(existing, options));
+                resolve(this.completeOutputs(existing, options));
                 return;
             }
 
+            // Outputs read before we started waiting are passed on first
+            if (onOutput) {
+                const listener = (output: CellOutput) => {
+                    if (this.filterOutputs([output], options).length > 0) {
+                        onOutput(output);
+                    }
+                };
+                existing?.forEach(listener);
+                this.cellListeners.set(cellId, listener);
+            }
+
             // Wait for cell completion
             this.cellCallbacks.set(cellId, (outputs) => {
-                resolve(this.filterOutputs(outputs, options));
+                this.cellListeners.delete(cellId);
+                resolve(this.completeOutputs(outputs, options));
             });
         });
     }
 
+    // The outputs of a finished cell. Printed text on either side of a hidden
+    // output is joined, and loses its final newline like the other text outputs.
+    private completeOutputs(outputs: CellOutput[], options: YamlOptions): CellOutput[] {
+        const complete: CellOutput[] = [];
+        for (const output of this.filterOutputs(outputs, options)) {
+            const last = complete[complete.length - 1];
+            if (output.stream && last?.stream) {
+                last.content += output.content;
+            } else {
+                complete.push(output.stream ? { ...output } : output);
+            }
+        }
+
+        return complete
+            .map(output => output.stream ? { ...output, content: output.content.replace(/\r?\n$/, '') } : output)
+            .filter(output => !output.stream || output.content !== '');
+    }
+
+    // Errors are always kept: as in Quarto, the error option only decides whether
+    // execution continues past them
     private filterOutputs(outputs: CellOutput[], options: YamlOptions): CellOutput[] {
         return outputs.filter(output => {
             switch (output.type) {
@@ -100,8 +175,6 @@ export class OutputWatcher {
                     return options.message;
                 case 'WARNING':
                     return options.warning;
-                case 'ERROR':
-                    return options.error;
                 case 'CELL_START':
                 case 'CELL_END':
                     return false; // Don't include markers in final output
@@ -111,41 +184,48 @@ export class OutputWatcher {
         });
     }
 
-    private processNewOutput(): void {
+    private processNewOutput(text: string): void {
         try {
-            if (!fs.existsSync(this.outputFile)) return;
-
-            const content = fs.readFileSync(this.outputFile, 'utf-8');
-            const newContent = content.slice(this.lastPosition);
-            this.lastPosition = content.length;
-
-            if (!newContent.trim()) return;
-
-            console.log('OutputWatcher: New content detected, length:', newContent.length);
-            console.log('OutputWatcher: Content preview:', newContent.substring(0, 200));
-
-            // Parse output blocks
-            // Format: ###TYPE:CELL_ID###\nCONTENT\n###END###
-            const blockRegex = /###(\w+):([^#]+)###\n([\s\S]*?)\n###END###/g;
-            let match;
-            let matchCount = 0;
+            // A message may arrive in several pieces; the parser keeps the
+            // incomplete tail until the rest comes in
+            for (const output of this.parser.push(text)) {
+                console.log('OutputWatcher: Parsed message - type:', output.type, 'cellId:', output.cellId);
+
+                if (output.type === 'VIEW') {
+                    this.onSessionEvent?.(output);
+                    continue;
+                }
 
-            while ((match = blockRegex.exec(newContent)) !== null) {
-                matchCount++;
-                const [, type, cellId, blockContent] = match;
-                console.log('OutputWatcher: Parsed block - type:', type, 'cellId:', cellId);
+                if (output.type === 'PLOT' || output.type === 'PLOT_UPDATE') {
+                    output.content = this.resolvePath?.(output.content) ?? output.content;
+                    output.data = loadPlot(output.content);
+                }
 
-                const output: CellOutput = {
-                    type: type as CellOutput['type'],
-                    content: blockContent.trim(),
-                    cellId: cellId.trim()
-                };
+                if (this.cancelledCells.has(output.cellId)) {
+                    if (output.type === 'CELL_END') {
+                        this.cancelledCells.delete(output.cellId);
+                    }
+                    continue;
+                }
 
                 // Store output
                 if (!this.cellOutputs.has(output.cellId)) {
                     this.cellOutputs.set(output.cellId, []);
                 }
-                this.cellOutputs.get(output.cellId)!.push(output);
+                const outputs = this.cellOutputs.get(output.cellId)!;
+                const last = outputs[outputs.length - 1];
+                const lastPlot = outputs.map(o => o.type).lastIndexOf('PLOT');
+                if (output.stream && last?.stream) {
+                    last.content += output.content;
+                } else if (output.stream) {
+                    outputs.push({ ...output });
+                } else if (output.type === 'PLOT_UPDATE' && lastPlot >= 0) {
+                    // A page drawn on again replaces its earlier image in place
+                    outputs[lastPlot] = { ...output, type: 'PLOT' };
+                } else {
+                    outputs.push(output.type === 'PLOT_UPDATE' ? { ...output, type: 'PLOT' } : output);
+                }
+                this.cellListeners.get(output.cellId)?.(output);
 
                 // Check if cell is complete
                 if (output.type === 'CELL_END') {
@@ -160,31 +240,87 @@ export class OutputWatcher {
                     }
                 }
             }
-
-            if (matchCount === 0 && newContent.includes('###')) {
-                console.log('OutputWatcher: Content has ### but no regex matches. Raw content:', JSON.stringify(newContent));
-            }
         } catch (error) {
             console.error('Error processing output:', error);
         }
     }
 
+    // Stop waiting for a cell that did not finish, resolving with whatever it wrote so far
+    public cancelCell(cellId: string): void {
+        // Drain anything written since the last poll
+        this.transport?.drain();
+
+        const callback = this.cellCallbacks.get(cellId);
+        if (!callback) {
+            return;
+        }
+
+        const outputs = this.cellOutputs.get(cellId) ?? [];
+        if (!outputs.some(o => o.type === 'INTERRUPTED')) {
+            outputs.push({ type: 'INTERRUPTED', content: 'Execution interrupted', cellId });
+        }
+        this.cellOutputs.set(cellId, outputs);
+
+        callback(outputs);
+        this.cellCallbacks.delete(cellId);
+        this.cancelledCells.add(cellId);
+    }
+
+    // Release every cell still waiting for output, e.g. when the session is torn down
+    public cancelAll(): void {
+        for (const cellId of [...this.cellCallbacks.keys()]) {
+            this.cancelCell(cellId);
+        }
+        this.clearAllOutput();
+    }
+
     public clearCellOutput(cellId: string): void {
         this.cellOutputs.delete(cellId);
     }
 
     public clearAllOutput(): void {
         this.cellOutputs.clear();
-        this.lastPosition = 0;
-        if (fs.existsSync(this.outputFile)) {
-            fs.writeFileSync(this.outputFile, '');
-        }
+        this.cellListeners.clear();
+        this.cancelledCells.clear();
+        this.parser.reset();
+        this.transport?.reset();
+    }
+}
+
+// Read a plot file into memory and remove it, so plot files never pile up in the
+// session directory
+function loadPlot(file: string): Buffer | undefined {
+    try {
+        const data = fs.readFileSync(file);
+        fs.unlinkSync(file);
+        return data;
+    } catch (e) {
+        console.error('Failed to load plot file:', file, e);
+        return undefined;
+    }
+}
+
+// Drop the outputs hidden by include, output and results; errors always stay visible
+export function visibleOutputs(outputs: CellOutput[], options: ExecutionOptions): CellOutput[] {
+    if (!options.include || options.output === false) {
+        return outputs.filter(o => o.type === 'ERROR' || o.type === 'INTERRUPTED');
+    }
+    if (options.results === 'hide') {
+        return outputs.filter(o => o.type !== 'OUTPUT' && o.type !== 'HTML' && o.type !== 'DATAFRAME');
     }
+    return outputs;
 }
 
 // Convert cell outputs to VSCode notebook cell output
-export function cellOutputsToNotebookOutput(outputs: CellOutput[]): vscode.NotebookCellOutput[] {
+// Chunk options decide how text renders (results/output: asis as Markdown) and
+// which caption goes under each figure
+export function cellOutputsToNotebookOutput(
+    outputs: CellOutput[],
+    options: Partial<ExecutionOptions> = {}
+): vscode.NotebookCellOutput[] {
     const notebookOutputs: vscode.NotebookCellOutput[] = [];
+    const asis = options.results === 'asis' || options.output === 'asis';
+    let figureIndex = 0;
 
     for (const output of outputs) {
         switch (output.type) {
@@ -192,8 +328,11 @@ export function cellOutputsToNotebookOutput(outputs: CellOutput[]): vscode.Noteb
             case 'MESSAGE':
             case 'WARNING':
             case 'ERROR':
+            case 'INTERRUPTED':
                 // Text output
-                const mimeType = output.type === 'ERROR' ? 'application/vnd.code.notebook.stderr' : 'text/plain';
+                const mimeType = output.type === 'ERROR' || output.type === 'INTERRUPTED'
+                    ? 'application/vnd.code.notebook.stderr'
+                    : output.type === 'OUTPUT' && asis ? 'text/markdown' : 'text/plain';
                 notebookOutputs.push(new vscode.NotebookCellOutput([
                     vscode.NotebookCellOutputItem.text(output.content, mimeType)
                 ]));
@@ -202,15 +341,19 @@ export function cellOutputsToNotebookOutput(outputs: CellOutput[]): vscode.Noteb
             case 'PLOT':
                 // Image output - read the file
                 try {
-                    const imageData = fs.readFileSync(output.content);
-                    notebookOutputs.push(new vscode.NotebookCellOutput([
-                        new vscode.NotebookCellOutputItem(imageData, 'image/png')
-                    ]));
+                    const imageData = output.data ?? fs.readFileSync(output.content);
+                    const caption = Array.isArray(options.figCap) ? options.figCap[figureIndex] : options.figCap;
+                    figureIndex++;
+                    notebookOutputs.push(figureOutput(output.content, imageData, caption));
                 } catch (e) {
                     console.error('Failed to read plot file:', output.content, e);
                 }
                 break;
 
+            case 'DATAFRAME':
+                notebookOutputs.push(dataFrameOutput(output.content, asis));
+                break;
+
             case 'HTML':
                 // HTML output
                 notebookOutputs.push(new vscode.NotebookCellOutput([
@@ -222,3 +365,49 @@ export function cellOutputsToNotebookOutput(outputs: CellOutput[]): vscode.Noteb
 
     return notebookOutputs;
 }
+
+function figureOutput(file: string, data: Buffer, caption?: string): vscode.NotebookCellOutput {
+    const mime = file.endsWith('.svg') ? 'image/svg+xml' : 'image/png';
+    const image = new vscode.NotebookCellOutputItem(data, mime);
+
+    // Retina PNGs have twice the pixels of their display size
+    const retina = file.endsWith('@2x.png') && data.length >= 24;
+    if (!caption && !retina) {
+        return new vscode.NotebookCellOutput([image]);
+    }
+
+    // HTML shows the figure at its display size with the caption under it;
+    // the plain image stays available as an alternative mime type
+    const width = retina ? ` width="${Math.round(data.readUInt32BE(16) / 2)}"` : '';
+    const img = `<img src="data:${mime};base64,${data.toString('base64')}"${width}>`;
+    const html = caption
+        ? `<figure style="margin: 0">${img}<figcaption>${escapeHtml(caption)}</figcaption></figure>`
+        : img;
+
+    return new vscode.NotebookCellOutput([vscode.NotebookCellOutputItem.text(html, 'text/html'), image]);
+}
+
+// The interactive table, with the printed data frame for other consumers;
+// asis output keeps only the text, as Markdown
+function dataFrameOutput(content: string, asis: boolean): vscode.NotebookCellOutput {
+    let table: DataFrameTable;
+    try {
+        table = JSON.parse(content);
+    } catch (e) {
+        console.error('Failed to parse data frame:', e);
+        return new vscode.NotebookCellOutput([vscode.NotebookCellOutputItem.text(content)]);
+    }
+
+    if (asis) {
+        return new vscode.NotebookCellOutput([vscode.NotebookCellOutputItem.text(table.text, 'text/markdown')]);
+    }
+
+    return new vscode.NotebookCellOutput([
+        vscode.NotebookCellOutputItem.text(content, DATA_FRAME_MIME),
+        vscode.NotebookCellOutputItem.text(table.text, 'text/plain')
+    ]);
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
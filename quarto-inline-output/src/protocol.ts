@@ -0,0 +1,133 @@
+import { CellOutput } from './outputWatcher';
+import { TransportKind } from './outputTransport';
+
+// Version of the message format below. The setup scripts embed it in every
+// message and report it in the ready file, so a mismatch is caught at setup.
+export const PROTOCOL_VERSION = 2;
+
+// The interpreter writes messages and, between them, what the running cell
+// prints: stdout goes to the same connection, so printed text arrives while the
+// cell runs and in order with the messages. A message is a record separator
+// followed by one line of JSON:
+// \x1e{"v":2,"seq":3,"type":"OUTPUT","cell":"cell_1","content":"..."}\n
+// JSON escaping keeps newlines and the separator out of the message
+interface Message {
+    v: number;
+    seq: number; // counts from 1 since setup; a gap means messages were lost
+    type: string;
+    cell: string;
+    content: string;
+}
+
+const RECORD_START = '\x1e';
+
+// What the interpreter writes to the ready file once setup completed
+export interface ReadyInfo {
+    protocol: number;
+    transport: TransportKind;
+}
+
+// Turns the text the interpreter writes, in pieces of any size, into outputs
+export class MessageParser {
+    // A message whose end has not arrived yet
+    private pending: string = '';
+    private lastSeq: number = 0;
+    // The cell between its CELL_START and CELL_END, which printed text belongs to
+    private currentCell: string | undefined;
+
+    public push(text: string): CellOutput[] {
+        const outputs: CellOutput[] = [];
+        let rest = this.pending + text;
+        this.pending = '';
+
+        while (rest) {
+            // Printed text is passed on as soon as it arrives, even without a newline
+            const start = rest.indexOf(RECORD_START);
+            if (start !== 0) {
+                this.addPrinted(start < 0 ? rest : rest.slice(0, start), outputs);
+                if (start < 0) {
+                    break;
+                }
+                rest = rest.slice(start);
+            }
+
+            // A write cut short (e.g. by an interrupt) is followed by the next message
+            const end = rest.indexOf('\n');
+            const next = rest.indexOf(RECORD_START, 1);
+            if (next > 0 && (end < 0 || next < end)) {
+                console.error('OutputWatcher: Dropping an incomplete message:', JSON.stringify(rest.slice(0, next)));
+                rest = rest.slice(next);
+                continue;
+            }
+            if (end < 0) {
+                this.pending = rest;
+                break;
+            }
+
+            const message = this.parseMessage(rest.slice(1, end));
+            if (message) {
+                if (message.type === 'CELL_START') {
+                    this.currentCell = message.cell;
+                } else if (message.type === 'CELL_END' && message.cell === this.currentCell) {
+                    this.currentCell = undefined;
+                }
+                outputs.push({ type: message.type as CellOutput['type'], content: message.content, cellId: message.cell });
+            }
+            rest = rest.slice(end + 1);
+        }
+
+        return outputs;
+    }
+
+    // Forget buffered text and the sequence, e.g. when the interpreter is set up again
+    public reset(): void {
+        this.pending = '';
+        this.lastSeq = 0;
+        this.currentCell = undefined;
+    }
+
+    private addPrinted(text: string, outputs: CellOutput[]): void {
+        if (!this.currentCell) {
+            if (text.trim()) {
+                console.error('OutputWatcher: Dropping text printed outside a cell:', JSON.stringify(text));
+            }
+            return;
+        }
+        outputs.push({ type: 'OUTPUT', content: text, cellId: this.currentCell, stream: true });
+    }
+
+    private parseMessage(line: string): Message | undefined {
+        let message: Message;
+        try {
+            message = JSON.parse(line);
+        } catch (e) {
+            console.error('OutputWatcher: Dropping a malformed message:', JSON.stringify(line), e);
+            return undefined;
+        }
+
+        if (message?.v !== PROTOCOL_VERSION) {
+            console.error(`OutputWatcher: Dropping a message of protocol version ${message?.v}, expected ${PROTOCOL_VERSION}`);
+            return undefined;
+        }
+        if (typeof message.type !== 'string' || typeof message.cell !== 'string' || typeof message.content !== 'string') {
+            console.error('OutputWatcher: Dropping a message without type, cell or content:', JSON.stringify(line));
+            return undefined;
+        }
+
+        if (this.lastSeq > 0 && message.seq !== this.lastSeq + 1) {
+            console.error(`OutputWatcher: Expected message ${this.lastSeq + 1}, got ${message.seq}; output may be missing`);
+        }
+        this.lastSeq = message.seq;
+
+        return message;
+    }
+}
+
+export function parseReadyFile(text: string): ReadyInfo | undefined {
+    try {
+        const ready = JSON.parse(text);
+        return typeof ready?.protocol === 'number' ? ready : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
@@ -109,27 +109,23 @@ options(scipen=999)
 
 .quarto_plot_dir <- tempdir()
 
-.quarto_capture_plots <- function(code_expr) {
-    plot_file <- file.path(.quarto_plot_dir, paste0("plot_", format(Sys.time(), "%Y%m%d_%H%M%OS3"), ".png"))
-    png(plot_file, width = 800, height = 600, res = 100)
-    dev_id <- dev.cur()
-    tryCatch({
-        result <- eval(code_expr)
-        # Only print ggplot objects (they need explicit printing to render)
-        # Base R plots render automatically and return objects we don't want to print
-        if (!is.null(result) && inherits(result, c("ggplot", "gg"))) {
-            print(result)
-        }
-        if (dev.cur() == dev_id) {
-            dev.off()
-            if (file.exists(plot_file) && file.info(plot_file)$size > 0) {
-                cat("###QUARTO_PLOT###", plot_file, "###END_PLOT###\\n", sep="")
-            }
+# Every page drawn while code runs goes to its own numbered file, so plots are
+# found on the device instead of by looking at the code
+.quarto_open_plots <- function() {
+    .quarto_plot_stem <<- file.path(.quarto_plot_dir, paste0("plot_", format(Sys.time(), "%Y%m%d_%H%M%OS3")))
+    png(paste0(.quarto_plot_stem, "_%03d.png"), width = 800, height = 600, res = 100)
+    .quarto_plot_dev <<- dev.cur()
+    invisible()
+}
+
+.quarto_close_plots <- function() {
+    if (.quarto_plot_dev %in% dev.list()) dev.off(.quarto_plot_dev)
+    for (plot_file in sort(Sys.glob(paste0(.quarto_plot_stem, "_*.png")))) {
+        if (file.info(plot_file)$size > 0) {
+            cat("###QUARTO_PLOT###", plot_file, "###END_PLOT###\\n", sep="")
         }
-    }, error = function(e) {
-        if (dev.cur() == dev_id) dev.off()
-        stop(e)
-    })
+    }
+    invisible()
 }
 
 .quarto_capture_html <- function(expr) {
@@ -231,14 +227,6 @@ options(scipen=999)
                                     code.includes('plotly') ||
                                     code.includes('DT::datatable');
 
-            // Check if code creates plots
-            const needsPlotWrapper = code.includes('plot(') ||
-                                    code.includes('ggplot(') ||
-                                    code.includes('hist(') ||
-                                    code.includes('boxplot(') ||
-                                    code.includes('barplot(') ||
-                                    code.includes('scatter');
-
             if (this.rProcess?.stdin) {
                 // Create unique execution ID
                 const execId = Date.now().toString();
@@ -248,15 +236,16 @@ options(scipen=999)
                 // Send invisible start marker (variable assignment produces no output)
                 this.rProcess.stdin.write(`${startMarker} <- TRUE\n`);
 
-                // Send the actual user code directly (no temp file)
-                if (needsPlotWrapper) {
-                    this.rProcess.stdin.write(`.quarto_capture_plots(expression({\n${code}\n}))\n`);
-                } else if (needsHtmlWrapper) {
+                // Send the actual user code directly (no temp file), drawing on
+                // a capture device so any plots it makes are picked up
+                this.rProcess.stdin.write('.quarto_open_plots()\n');
+                if (needsHtmlWrapper) {
                     this.rProcess.stdin.write(`.quarto_capture_html(expression({\n${code}\n}))\n`);
                 } else {
                     // Send code directly - R will auto-print last value in interactive mode
                     this.rProcess.stdin.write(`${code}\n`);
                 }
+                this.rProcess.stdin.write('.quarto_close_plots()\n');
 
                 // Send invisible end marker
                 this.rProcess.stdin.write(`${endMarker} <- TRUE\n`);
@@ -297,8 +286,8 @@ options(scipen=999)
         // Remove marker variable assignments (e.g., "> .quarto_exec_id_123 <- TRUE")
         buffer = buffer.replace(/>\s*\.quarto_exec_id_\d+(_complete)?\s*<-\s*TRUE\s*\n?/g, '');
 
-        // Remove wrapper function calls for plots/html
-        buffer = buffer.replace(/>\s*\.quarto_capture_(plots|html)\(expression\(\{\s*\n?/g, '');
+        // Remove the HTML wrapper function calls
+        buffer = buffer.replace(/>\s*\.quarto_capture_html\(expression\(\{\s*\n?/g, '');
         buffer = buffer.replace(/>\s*\+\s*\}\)\)\s*\n?/g, '');
 
         // Filter output: keep ONLY output lines, remove all code/prompt lines
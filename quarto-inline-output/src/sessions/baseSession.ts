@@ -0,0 +1,422 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { OutputWatcher, CellOutput } from '../outputWatcher';
+import { ExecutionOptions, resolveExecutionOptions } from '../chunkParser';
+import { SocketEndpoint, TransportKind } from '../outputTransport';
+import { PROTOCOL_VERSION, parseReadyFile } from '../protocol';
+
+// How long an interrupted cell may take to report before we stop waiting for it
+const INTERRUPT_GRACE_MS = 5000;
+
+// How long to wait for a disposed terminal to close before moving on
+const TERMINAL_CLOSE_TIMEOUT_MS = 5000;
+
+// How long a query may wait for the interpreter, e.g. behind a running cell
+const QUERY_TIMEOUT_MS = 10000;
+
+// Session directories without an owner are left alone until untouched this long
+const UNOWNED_DIR_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Written to each session directory, naming the window that uses it
+const OWNER_FILE = 'owner.json';
+
+/**
+ * A persistent interpreter running in a visible terminal. Code is sent with
+ * sendText and results come back through the file-based IPC read by OutputWatcher.
+ */
+export abstract class BaseSession {
+    protected terminal: vscode.Terminal | null = null;
+    protected outputWatcher: OutputWatcher;
+    private setupSourced: boolean = false;
+    private viewEmitter = new vscode.EventEmitter<string>();
+
+    // View() was called in the interpreter; the payload describes the object to show
+    public readonly onDidRequestView = this.viewEmitter.event;
+
+    constructor(protected sessionName: string, outputDir: string) {
+        this.outputWatcher = new OutputWatcher(outputDir);
+        this.outputWatcher.onSessionEvent = event => this.viewEmitter.fire(event.content);
+        this.outputWatcher.resolvePath = file => this.toHostPath(file);
+    }
+
+    public getSessionName(): string {
+        return this.sessionName;
+    }
+
+    /**
+     * Get the language this session executes
+     */
+    abstract getLanguage(): string;
+
+    /**
+     * Options for the terminal that starts the interpreter
+     */
+    protected abstract getTerminalOptions(): vscode.TerminalOptions;
+
+    /**
+     * Source of the setup script that installs the eval wrapper in the interpreter.
+     * With a socket endpoint the interpreter connects to it instead of writing
+     * the output file. Once set up, it writes its protocol version and
+     * transport to the ready file as JSON (see ReadyInfo).
+     */
+    protected abstract buildSetupScript(outputDir: string, readyFile: string, socket?: SocketEndpoint): string;
+
+    /**
+     * File name the setup script is written to
+     */
+    protected abstract getSetupFileName(): string;
+
+    /**
+     * Single-line command that loads the setup script
+     */
+    protected abstract setupCommand(setupFile: string): string;
+
+    /**
+     * Single-line command that runs code through the eval wrapper, with the
+     * figure options for the graphics device
+     */
+    protected abstract evalCommand(code: string, cellId: string, options: ExecutionOptions): string;
+
+    /**
+     * Single-line command that evaluates an expression returning a string and
+     * reports it for queryId without echoing it in the terminal
+     */
+    protected queryCommand(expression: string, queryId: string): string {
+        throw new Error(`Language ${this.getLanguage()} not yet supported`);
+    }
+
+    /**
+     * Path of a file of ours as the interpreter sees it, when it runs elsewhere
+     * (a container, another machine)
+     */
+    protected toSessionPath(hostPath: string): string {
+        return hostPath;
+    }
+
+    /**
+     * Path of a file written by the interpreter as we see it
+     */
+    protected toHostPath(sessionPath: string): string {
+        return sessionPath;
+    }
+
+    /**
+     * How the interpreter sends its output back
+     */
+    protected getTransport(): TransportKind {
+        return 'file';
+    }
+
+    public getOutputDir(): string {
+        return this.outputWatcher.getOutputDir();
+    }
+
+    protected getOrCreateTerminal(): vscode.Terminal {
+        // Create a new terminal if none exists
+        if (!this.terminal || this.terminal.exitStatus !== undefined) {
+            this.terminal = vscode.window.createTerminal(this.getTerminalOptions());
+            this.setupSourced = false;
+        }
+
+        return this.terminal;
+    }
+
+    private async ensureSetup(): Promise<void> {
+        const terminal = this.getOrCreateTerminal();
+
+        // Check if terminal changed or was closed
+        if (this.setupSourced && this.terminal?.exitStatus !== undefined) {
+            // Terminal was closed, need to re-setup
+            this.setupSourced = false;
+            this.terminal = null;
+        }
+
+        // Check if the ready file exists - if not, setup may have been lost
+        const outputDir = this.outputWatcher.getOutputDir();
+        const readyFile = path.join(outputDir, 'ready');
+        if (this.setupSourced && !fs.existsSync(readyFile)) {
+            // Ready file missing, need to re-setup
+            this.setupSourced = false;
+        }
+
+        if (this.setupSourced) {
+            return;
+        }
+
+        // Start the output watcher
+        await this.outputWatcher.start(this.getTransport());
+        const socket = this.outputWatcher.getSocketEndpoint();
+
+        // Write setup code to a temp file (radian breaks on multi-line input)
+        const setupFile = path.join(outputDir, this.getSetupFileName());
+        fs.mkdirSync(outputDir, { recursive: true });
+        claimOutputDir(outputDir);
+        fs.writeFileSync(
+            setupFile,
+            this.buildSetupScript(this.toSessionPath(outputDir), this.toSessionPath(readyFile), socket)
+        );
+
+        // Remove ready file if it exists
+        if (fs.existsSync(readyFile)) {
+            fs.unlinkSync(readyFile);
+        }
+
+        // Show terminal to ensure it's active
+        terminal.show(true);
+
+        // Wait for terminal/interpreter to start up (radian needs time)
+        await new Promise(resolve => setTimeout(resolve, 2000));
+
+        // Source the file
+        terminal.sendText(this.setupCommand(this.toSessionPath(setupFile)));
+
+        // Wait for ready signal with timeout
+        const startTime = Date.now();
+        const timeout = 30000; // 30 seconds
+        while (!fs.existsSync(readyFile)) {
+            if (Date.now() - startTime > timeout) {
+                // Log diagnostics
+                console.error(`Timeout waiting for ${this.getLanguage()} setup`);
+                console.error('Setup file exists:', fs.existsSync(setupFile));
+                console.error('Output dir exists:', fs.existsSync(outputDir));
+                console.error('Ready file path:', readyFile);
+
+                // Try one more time
+                terminal.sendText(this.setupCommand(this.toSessionPath(setupFile)));
+                await new Promise(resolve => setTimeout(resolve, 5000));
+
+                if (!fs.existsSync(readyFile)) {
+                    throw new Error(`Timeout waiting for ${this.getLanguage()} setup to complete. Make sure the interpreter is running in the terminal.`);
+                }
+            }
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+
+        const ready = parseReadyFile(fs.readFileSync(readyFile, 'utf-8'));
+        if (ready?.protocol !== PROTOCOL_VERSION) {
+            throw new Error(`The ${this.getLanguage()} setup script reported protocol version ${ready?.protocol}, expected ${PROTOCOL_VERSION}`);
+        }
+
+        // The interpreter writes to the output file when it could not connect;
+        // it already has the file open, so it must not be replaced
+        if (socket && ready.transport !== 'socket') {
+            console.error(`${this.getLanguage()} could not connect to the output socket, using the output file`);
+            await this.outputWatcher.start('file', true);
+        }
+
+        this.setupSourced = true;
+        console.log(`${this.getLanguage()} setup complete`);
+    }
+
+    // Run code through the eval wrapper in the session and collect its outputs.
+    // Cancelling the token interrupts the interpreter; the outputs written so far
+    // are returned with an INTERRUPTED marker.
+    public async evaluate(
+        code: string,
+        yamlOptions?: Partial<ExecutionOptions>,
+        token?: vscode.CancellationToken,
+        onOutput?: (output: CellOutput) => void
+    ): Promise<CellOutput[]> {
+        // Ensure the interpreter is set up
+        await this.ensureSetup();
+
+        if (token?.isCancellationRequested) {
+            return [{ type: 'INTERRUPTED', content: 'Execution cancelled', cellId: 'none' }];
+        }
+
+        const terminal = this.getOrCreateTerminal();
+        terminal.show(true); // Show terminal, preserve focus
+
+        // Generate unique cell ID
+        const cellId = `cell_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+        // Clear any previous output for this cell
+        this.outputWatcher.clearCellOutput(cellId);
+
+        // Send code to terminal using our eval wrapper
+        terminal.sendText(this.evalCommand(code, cellId, resolveExecutionOptions(undefined, yamlOptions ?? {})));
+
+        const outputs = this.outputWatcher.waitForCell(cellId, yamlOptions, onOutput);
+
+        let graceTimer: NodeJS.Timeout | undefined;
+        const cancel = () => {
+            if (graceTimer) {
+                return;
+            }
+            this.interrupt();
+            // Give the interpreter a moment to unwind and report, then stop waiting
+            graceTimer = setTimeout(() => this.outputWatcher.cancelCell(cellId), INTERRUPT_GRACE_MS);
+        };
+
+        const cancellation = token?.onCancellationRequested(cancel);
+
+        const timeoutSeconds = vscode.workspace
+            .getConfiguration('quarto-inline-output')
+            .get<number>('executionTimeout', 0);
+        let timedOut = false;
+        const timeoutTimer = timeoutSeconds > 0
+            ? setTimeout(() => {
+                timedOut = true;
+                cancel();
+            }, timeoutSeconds * 1000)
+            : undefined;
+
+        try {
+            const result = await outputs;
+            if (timedOut) {
+                result.push({ type: 'ERROR', content: `Execution timed out after ${timeoutSeconds} seconds`, cellId });
+            }
+            return result;
+        } finally {
+            clearTimeout(timeoutTimer);
+            clearTimeout(graceTimer);
+            cancellation?.dispose();
+            // The caller has the outputs; keeping them would hold every plot in memory
+            this.outputWatcher.clearCellOutput(cellId);
+        }
+    }
+
+    // Evaluate an expression for the extension itself (e.g. the variable explorer)
+    // and resolve with the string it returns. Errors in the interpreter reject.
+    public async query(expression: string): Promise<string> {
+        await this.ensureSetup();
+
+        const queryId = `query_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const outputs = this.outputWatcher.waitForCell(queryId);
+        this.getOrCreateTerminal().sendText(this.queryCommand(expression, queryId));
+
+        const timer = setTimeout(() => this.outputWatcher.cancelCell(queryId), QUERY_TIMEOUT_MS);
+        try {
+            const result = await outputs;
+            const error = result.find(o => o.type === 'ERROR' || o.type === 'INTERRUPTED');
+            if (error) {
+                throw new Error(error.type === 'INTERRUPTED' ? `The ${this.getLanguage()} session is busy` : error.content);
+            }
+            return result.find(o => o.type === 'OUTPUT')?.content ?? '';
+        } finally {
+            clearTimeout(timer);
+            this.outputWatcher.clearCellOutput(queryId);
+        }
+    }
+
+    // Run code in the terminal as if the user typed it
+    public async runInTerminal(code: string): Promise<void> {
+        await this.ensureSetup();
+        const terminal = this.getOrCreateTerminal();
+        terminal.show(true);
+        terminal.sendText(code);
+    }
+
+    // Send Ctrl-C to the interpreter, as if the user pressed it in the terminal
+    public interrupt(): void {
+        if (this.terminal && this.terminal.exitStatus === undefined) {
+            this.terminal.sendText('\x03', false);
+        }
+    }
+
+    // Tear down the interpreter and start a fresh one with the setup script sourced again
+    public async restart(): Promise<void> {
+        // Anything still waiting on the old process gets what it wrote so far
+        this.outputWatcher.cancelAll();
+        this.outputWatcher.stop();
+
+        const terminal = this.terminal;
+        this.terminal = null;
+        this.setupSourced = false;
+        if (terminal) {
+            await closeTerminal(terminal);
+        }
+
+        // Start from an empty output directory so nothing of the old process is read
+        fs.rmSync(this.getOutputDir(), { recursive: true, force: true });
+
+        await this.ensureSetup();
+    }
+
+    public dispose(): void {
+        // Cells still waiting on the interpreter end as interrupted
+        this.outputWatcher.cancelAll();
+        this.outputWatcher.stop();
+        this.viewEmitter.dispose();
+        this.terminal?.dispose();
+        this.terminal = null;
+        fs.rmSync(this.getOutputDir(), { recursive: true, force: true });
+    }
+}
+
+// Parent of all session directories
+export function outputRoot(): string {
+    return path.join(os.tmpdir(), 'quarto-inline');
+}
+
+// Output directory of a session under the temp directory. The process id and a
+// random suffix keep sessions of the same name in other windows apart.
+export function sessionOutputDir(language: string, sessionName: string): string {
+    const name = `${language}-${sessionName.replace(/[^\w.-]+/g, '_')}`;
+    return path.join(outputRoot(), `${name}-${process.pid}-${Math.random().toString(36).substr(2, 6)}`);
+}
+
+// Record this window's extension host as the owner of a session directory
+function claimOutputDir(outputDir: string): void {
+    fs.writeFileSync(path.join(outputDir, OWNER_FILE), JSON.stringify({ pid: process.pid, created: Date.now() }));
+}
+
+// Remove the session directories of windows that are gone, e.g. after a crash.
+// Directories of running windows are never touched.
+export function cleanStaleOutputDirs(): void {
+    const root = outputRoot();
+    if (!fs.existsSync(root)) {
+        return;
+    }
+
+    for (const entry of fs.readdirSync(root)) {
+        const dir = path.join(root, entry);
+        try {
+            const ownerFile = path.join(dir, OWNER_FILE);
+            const stale = fs.existsSync(ownerFile)
+                ? !isRunning(JSON.parse(fs.readFileSync(ownerFile, 'utf-8')).pid)
+                : Date.now() - fs.statSync(dir).mtimeMs > UNOWNED_DIR_MAX_AGE_MS;
+            if (stale) {
+                fs.rmSync(dir, { recursive: true, force: true });
+                console.log('Removed stale session directory:', dir);
+            }
+        } catch (error) {
+            console.error('Could not check session directory:', dir, error);
+        }
+    }
+}
+
+function isRunning(pid: number): boolean {
+    try {
+        // Signal 0 only checks that the process exists
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // The process exists but belongs to someone else
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+// Dispose a terminal and wait until VS Code reports it closed
+function closeTerminal(terminal: vscode.Terminal): Promise<void> {
+    if (terminal.exitStatus !== undefined) {
+        return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            listener.dispose();
+            resolve();
+        };
+        const timer = setTimeout(done, TERMINAL_CLOSE_TIMEOUT_MS);
+        const listener = vscode.window.onDidCloseTerminal(closed => {
+            if (closed === terminal) {
+                done();
+            }
+        });
+        terminal.dispose();
+    });
+}
@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+// How long a discovery command (R --version, rig, conda) may take
+const COMMAND_TIMEOUT_MS = 10000;
+
+// An R installation or environment a notebook can run on
+export interface RInterpreter {
+    id: string; // stable across windows, remembered per workspace
+    variant?: string; // e.g. "renv" or "conda: analysis"
+    description: string; // where it was found
+    command: string;
+    env?: Record<string, string>;
+    version?: string;
+    renvProject?: string; // project whose renv library is activated at setup
+}
+
+// R set in the R extension's r.rterm.* settings, else a common install location, else R on the PATH
+export function defaultRPath(): string {
+    // Check VSCode R extension settings first
+    const config = vscode.workspace.getConfiguration('r');
+    const rTermLinux = config.get<string>('rterm.linux');
+    const rTermMac = config.get<string>('rterm.mac');
+    const rTermWindows = config.get<string>('rterm.windows');
+
+    // Use platform-appropriate setting
+    const platform = process.platform;
+    let configuredPath: string | undefined;
+
+    if (platform === 'linux' && rTermLinux) {
+        configuredPath = rTermLinux;
+    } else if (platform === 'darwin' && rTermMac) {
+        configuredPath = rTermMac;
+    } else if (platform === 'win32' && rTermWindows) {
+        configuredPath = rTermWindows;
+    }
+
+    if (configuredPath && fs.existsSync(configuredPath)) {
+        return configuredPath;
+    }
+
+    // Fallback to common paths
+    const possiblePaths = [
+        '/usr/bin/R',
+        '/usr/local/bin/R',
+        '/opt/homebrew/bin/R',
+        'R'
+    ];
+
+    for (const rPath of possiblePaths) {
+        if (rPath === 'R' || fs.existsSync(rPath)) {
+            return rPath;
+        }
+    }
+
+    return 'R';
+}
+
+export function defaultInterpreter(): RInterpreter {
+    const command = defaultRPath();
+    return { id: 'default', description: `Default (${command})`, command };
+}
+
+// "R 4.3.2 (renv)", for the kernel picker
+export function interpreterLabel(interpreter: RInterpreter): string {
+    return `R${interpreter.version ? ` ${interpreter.version}` : ''}${interpreter.variant ? ` (${interpreter.variant})` : ''}`;
+}
+
+// Every R the project could run on: the default, other installations (rig, the
+// usual install locations, the PATH), the project's conda environment and its
+// renv library
+export async function discoverInterpreters(folder: string | undefined): Promise<RInterpreter[]> {
+    const base = defaultInterpreter();
+    const interpreters: RInterpreter[] = [base];
+    const seen = new Set([realPath(base.command)]);
+
+    for (const { command, source } of [...await rigInstallations(), ...installedVersions(), ...pathInstallations()]) {
+        const real = realPath(command);
+        if (!seen.has(real)) {
+            seen.add(real);
+            interpreters.push({ id: `path:${real}`, description: `${source} (${command})`, command });
+        }
+    }
+
+    if (folder) {
+        const conda = await condaInterpreter(folder);
+        if (conda) {
+            interpreters.push(conda);
+        }
+    }
+
+    await Promise.all(interpreters.map(async interpreter => {
+        interpreter.version = await rVersion(interpreter.command, interpreter.env);
+    }));
+
+    // Installations that do not run are left out; the default always stays
+    const working = interpreters.filter(interpreter => interpreter === base || interpreter.version);
+
+    const renv = folder && renvInterpreter(folder, working);
+    if (renv) {
+        working.push(renv);
+    }
+
+    return working;
+}
+
+// The project library of renv.lock, on the installation of the R version it was
+// locked with when there is one
+function renvInterpreter(folder: string, interpreters: RInterpreter[]): RInterpreter | undefined {
+    const lockFile = path.join(folder, 'renv.lock');
+    if (!fs.existsSync(lockFile)) {
+        return undefined;
+    }
+
+    let lockedVersion: string | undefined;
+    try {
+        lockedVersion = JSON.parse(fs.readFileSync(lockFile, 'utf-8')).R?.Version;
+    } catch (e) {
+        console.error('Invalid renv.lock:', lockFile, e);
+    }
+
+    const base = interpreters.find(interpreter => !interpreter.env && interpreter.version === lockedVersion) ?? interpreters[0];
+    return {
+        id: 'renv',
+        variant: 'renv',
+        description: `Project library of renv.lock${lockedVersion ? ` (R ${lockedVersion})` : ''}, ${base.command}`,
+        command: base.command,
+        env: base.env,
+        version: base.version,
+        renvProject: folder
+    };
+}
+
+// R of the environment named in the project's environment.yml, once it is created
+async function condaInterpreter(folder: string): Promise<RInterpreter | undefined> {
+    const file = ['environment.yml', 'environment.yaml']
+        .map(name => path.join(folder, name))
+        .find(candidate => fs.existsSync(candidate));
+    const name = file && fs.readFileSync(file, 'utf-8').match(/^name:\s*["']?([^\s"']+)/m)?.[1];
+    if (!name) {
+        return undefined;
+    }
+
+    const output = await run(process.env.CONDA_EXE ?? 'conda', ['env', 'list', '--json']);
+    let envs: string[] = [];
+    try {
+        envs = output ? JSON.parse(output).envs ?? [] : [];
+    } catch (e) {
+        console.error('Could not list conda environments:', e);
+    }
+
+    const prefix = envs.find(env => path.basename(env) === name);
+    if (!prefix) {
+        console.log(`Conda environment '${name}' of ${file} is not created yet`);
+        return undefined;
+    }
+
+    const binDir = process.platform === 'win32' ? path.join(prefix, 'Lib', 'R', 'bin') : path.join(prefix, 'bin');
+    const command = path.join(binDir, process.platform === 'win32' ? 'R.exe' : 'R');
+    if (!fs.existsSync(command)) {
+        return undefined;
+    }
+
+    return {
+        id: `conda:${name}`,
+        variant: `conda: ${name}`,
+        description: `${path.basename(file)} (${prefix})`,
+        command,
+        env: {
+            CONDA_PREFIX: prefix,
+            CONDA_DEFAULT_ENV: name,
+            PATH: [binDir, process.env.PATH].filter(Boolean).join(path.delimiter)
+        }
+    };
+}
+
+interface Installation {
+    command: string;
+    source: string;
+}
+
+// Versions installed with rig (https://github.com/r-lib/rig)
+async function rigInstallations(): Promise<Installation[]> {
+    const output = await run('rig', ['list', '--json']);
+    if (!output) {
+        return [];
+    }
+
+    try {
+        const versions: { name: string; path?: string; binary?: string }[] = JSON.parse(output);
+        return versions
+            .map(version => ({
+                command: version.binary ?? path.join(version.path ?? '', 'bin', process.platform === 'win32' ? 'R.exe' : 'R'),
+                source: `rig ${version.name}`
+            }))
+            .filter(installation => fs.existsSync(installation.command));
+    } catch (e) {
+        console.error('Could not read the rig installations:', e);
+        return [];
+    }
+}
+
+// Versions side by side in the usual install locations of each platform
+function installedVersions(): Installation[] {
+    let dir: string;
+    let binary: string[];
+    switch (process.platform) {
+        case 'linux':
+            dir = '/opt/R';
+            binary = ['bin', 'R'];
+            break;
+        case 'darwin':
+            dir = '/Library/Frameworks/R.framework/Versions';
+            binary = ['Resources', 'bin', 'R'];
+            break;
+        case 'win32':
+            dir = path.join(process.env.ProgramFiles ?? 'C:\\Program Files', 'R');
+            binary = ['bin', 'R.exe'];
+            break;
+        default:
+            return [];
+    }
+
+    try {
+        return fs.readdirSync(dir)
+            .filter(version => version !== 'Current')
+            .map(version => ({ command: path.join(dir, version, ...binary), source: `Installed (${version})` }))
+            .filter(installation => fs.existsSync(installation.command));
+    } catch (e) {
+        return [];
+    }
+}
+
+function pathInstallations(): Installation[] {
+    const name = process.platform === 'win32' ? 'R.exe' : 'R';
+    return (process.env.PATH ?? '').split(path.delimiter)
+        .filter(Boolean)
+        .map(dir => path.join(dir, name))
+        .filter(command => fs.existsSync(command) && fs.statSync(command).isFile())
+        .map(command => ({ command, source: 'PATH' }));
+}
+
+// "4.3.2" from the first line of R --version
+async function rVersion(command: string, env?: Record<string, string>): Promise<string | undefined> {
+    const output = await run(command, ['--version'], env);
+    return output?.match(/R version (\d+\.\d+\.\d+)/)?.[1];
+}
+
+// Resolve a bare command name through the PATH and follow symlinks, so one
+// installation found in several places is offered once
+function realPath(command: string): string {
+    const candidates = path.isAbsolute(command)
+        ? [command]
+        : (process.env.PATH ?? '').split(path.delimiter).filter(Boolean).map(dir => path.join(dir, command));
+    for (const candidate of candidates) {
+        try {
+            return fs.realpathSync(candidate);
+        } catch (e) {
+            // Not here
+        }
+    }
+    return command;
+}
+
+// Standard output of a command, or undefined when it is missing, fails or hangs
+function run(command: string, args: string[], env?: Record<string, string>): Promise<string | undefined> {
+    return new Promise(resolve => {
+        execFile(command, args, { timeout: COMMAND_TIMEOUT_MS, env: { ...process.env, ...env } }, (error, stdout) => {
+            resolve(error ? undefined : stdout);
+        });
+    });
+}
@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { outputRoot } from './baseSession';
+
+// A directory as seen by VS Code and by the interpreter, e.g. a Docker volume
+export interface PathMapping {
+    host: string;
+    session: string;
+}
+
+// Any command that ends up running R in the terminal: docker run, ssh, a wrapper script
+export interface LaunchProfile {
+    command: string;
+    args: string[];
+    env: Record<string, string>;
+    cwd?: string;
+    pathMappings: PathMapping[];
+}
+
+// The configured R launch profile, with ${workspaceFolder}, ${userHome} and
+// ${outputRoot} (the parent of all session directories) substituted
+export function getLaunchProfile(): LaunchProfile | undefined {
+    const setting = vscode.workspace.getConfiguration('quarto-inline-output').get<Partial<LaunchProfile>>('rLaunchProfile');
+    if (!setting?.command) {
+        return undefined;
+    }
+
+    const variables: Record<string, string> = {
+        workspaceFolder: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '',
+        userHome: os.homedir(),
+        outputRoot: outputRoot()
+    };
+    const substitute = (value: string) => value.replace(/\$\{(\w+)\}/g, (match, name) => variables[name] ?? match);
+
+    return {
+        command: substitute(setting.command),
+        args: (setting.args ?? []).map(substitute),
+        env: Object.fromEntries(Object.entries(setting.env ?? {}).map(([name, value]) => [name, substitute(value)])),
+        cwd: setting.cwd ? substitute(setting.cwd) : undefined,
+        pathMappings: (setting.pathMappings ?? []).map(mapping => ({
+            host: substitute(mapping.host),
+            session: substitute(mapping.session)
+        }))
+    };
+}
+
+// Translate a path between VS Code's side and the interpreter's side using the
+// mapping with the longest matching prefix; unmapped paths are returned as they are
+export function mapPath(file: string, mappings: PathMapping[], to: 'host' | 'session'): string {
+    const from = to === 'host' ? 'session' : 'host';
+    let best: PathMapping | undefined;
+    for (const mapping of mappings) {
+        const prefix = trimSeparators(mapping[from]);
+        const matches = file === prefix || file.startsWith(prefix + '/') || file.startsWith(prefix + '\\');
+        if (matches && (!best || prefix.length > trimSeparators(best[from]).length)) {
+            best = mapping;
+        }
+    }
+    if (!best) {
+        return file;
+    }
+
+    // The rest of the path takes the separators of the other side
+    const target = trimSeparators(best[to]);
+    const separator = target.includes('\\') && !target.includes('/') ? '\\' : '/';
+    const rest = file.slice(trimSeparators(best[from]).length).replace(/[\\/]/g, separator);
+    return target + rest;
+}
+
+function trimSeparators(dir: string): string {
+    return dir.length > 1 ? dir.replace(/[\\/]+$/, '') : dir;
+}
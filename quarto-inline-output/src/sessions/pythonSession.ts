@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { BaseSession, sessionOutputDir } from './baseSession';
+import { ExecutionOptions } from '../chunkParser';
+import { PROTOCOL_VERSION } from '../protocol';
+
+export class PythonSession extends BaseSession {
+    constructor(sessionName: string) {
+        super(sessionName, sessionOutputDir('python', sessionName));
+    }
+
+    getLanguage(): string {
+        return 'python';
+    }
+
+    protected getTerminalOptions(): vscode.TerminalOptions {
+        return {
+            name: `Python (${this.sessionName})`,
+            shellPath: this.findPythonPath(),
+            shellArgs: ['-q', '-i'],
+            // Figures are captured to files, never shown in a GUI window
+            env: { MPLBACKEND: 'Agg' }
+        };
+    }
+
+    private findPythonPath(): string {
+        // Check the Python extension's interpreter setting first
+        const configuredPath = vscode.workspace.getConfiguration('python').get<string>('defaultInterpreterPath');
+        if (configuredPath && configuredPath !== 'python' && fs.existsSync(configuredPath)) {
+            return configuredPath;
+        }
+
+        return process.platform === 'win32' ? 'python' : 'python3';
+    }
+
+    protected getSetupFileName(): string {
+        return 'quarto_setup.py';
+    }
+
+    protected setupCommand(setupFile: string): string {
+        return `exec(open(${JSON.stringify(setupFile)}, encoding="utf-8").read())`;
+    }
+
+    protected evalCommand(code: string, cellId: string, options: ExecutionOptions): string {
+        // JSON string escapes are valid Python string escapes, and a JSON object
+        // of numbers and strings is a valid dict
+        const fig = JSON.stringify({
+            width: options.figWidth,
+            height: options.figHeight,
+            dpi: options.figDpi,
+            format: options.figFormat
+        });
+        return `_quarto_eval_cell(${JSON.stringify(code)}, ${JSON.stringify(cellId)}, ${fig})`;
+    }
+
+    protected buildSetupScript(outputDir: string, readyFile: string): string {
+        return `
+import ast as _quarto_ast
+import io as _quarto_io
+import json as _quarto_json
+import os as _quarto_os
+import sys as _quarto_sys
+import time as _quarto_time
+import traceback as _quarto_traceback
+import warnings as _quarto_warnings
+
+
+class _QuartoInline:
+    def __init__(self, output_dir):
+        self.output_dir = output_dir
+        self.output_file = _quarto_os.path.join(output_dir, "output.txt")
+        self.plot_dir = _quarto_os.path.join(output_dir, "plots")
+        self.current_cell = "none"
+        self.seq = 0
+        _quarto_os.makedirs(self.plot_dir, exist_ok=True)
+        if _quarto_os.path.exists(self.output_file):
+            _quarto_os.remove(self.output_file)
+
+    def write_output(self, type_, content, cell_id="none"):
+        # One JSON message per line after a record separator, numbered so the
+        # reader notices lost messages
+        self.seq += 1
+        message = {"v": ${PROTOCOL_VERSION}, "seq": self.seq, "type": type_, "cell": cell_id, "content": str(content)}
+        with open(self.output_file, "a", encoding="utf-8") as f:
+            f.write("\\x1e" + _quarto_json.dumps(message, ensure_ascii=False, separators=(",", ":")) + "\\n")
+
+
+class _QuartoTee(_quarto_io.TextIOBase):
+    # Copies writes to the terminal while keeping them for the cell output
+    def __init__(self, stream):
+        self.stream = stream
+        self.captured = _quarto_io.StringIO()
+
+    def write(self, text):
+        self.stream.write(text)
+        self.captured.write(text)
+        return len(text)
+
+    def flush(self):
+        self.stream.flush()
+
+    def take(self):
+        text = self.captured.getvalue()
+        self.captured = _quarto_io.StringIO()
+        return text
+
+
+_quarto_inline = _QuartoInline(${JSON.stringify(outputDir)})
+
+
+def _quarto_showwarning(message, category, filename, lineno, file=None, line=None):
+    _quarto_inline.write_output("WARNING", "%s: %s" % (category.__name__, message), _quarto_inline.current_cell)
+
+
+_quarto_warnings.showwarning = _quarto_showwarning
+
+
+def _quarto_run(node, mode, cell_id):
+    stdout = _QuartoTee(_quarto_sys.stdout)
+    stderr = _QuartoTee(_quarto_sys.stderr)
+    real_stdout, real_stderr = _quarto_sys.stdout, _quarto_sys.stderr
+    _quarto_sys.stdout, _quarto_sys.stderr = stdout, stderr
+    try:
+        return eval(compile(node, "<cell>", mode), globals())
+    finally:
+        _quarto_sys.stdout, _quarto_sys.stderr = real_stdout, real_stderr
+        out = stdout.take()
+        if out.strip():
+            _quarto_inline.write_output("OUTPUT", out.rstrip("\\n"), cell_id)
+        err = stderr.take()
+        if err.strip():
+            _quarto_inline.write_output("MESSAGE", err.rstrip("\\n"), cell_id)
+
+
+def _quarto_display(value, cell_id):
+    if value is None:
+        return
+    # Figures are emitted when the cell ends; their reprs are noise
+    if type(value).__module__.startswith("matplotlib"):
+        return
+    if isinstance(value, list) and value and type(value[0]).__module__.startswith("matplotlib"):
+        return
+    repr_html = getattr(value, "_repr_html_", None)
+    if callable(repr_html):
+        try:
+            html = repr_html()
+        except Exception:
+            html = None
+        if html:
+            _quarto_inline.write_output("HTML", html, cell_id)
+            print(repr(value))
+            return
+    text = repr(value)
+    _quarto_inline.write_output("OUTPUT", text, cell_id)
+    print(text)
+
+
+def _quarto_apply_figure_size(fig):
+    # Figures created from here on get the cell's size
+    mpl = _quarto_sys.modules.get("matplotlib")
+    if mpl is not None:
+        mpl.rcParams["figure.figsize"] = (fig["width"], fig["height"])
+
+
+def _quarto_flush_figures(cell_id, fig):
+    plt = _quarto_sys.modules.get("matplotlib.pyplot")
+    if plt is None:
+        return
+    retina = fig["format"] == "retina"
+    ext = "svg" if fig["format"] == "svg" else "png"
+    dpi = fig["dpi"] * 2 if retina else fig["dpi"]
+    for num in plt.get_fignums():
+        plot_file = _quarto_os.path.join(
+            _quarto_inline.plot_dir,
+            "plot_%s_%d_%d%s.%s" % (cell_id, num, int(_quarto_time.time() * 1000), "@2x" if retina else "", ext))
+        plt.figure(num).savefig(plot_file, dpi=dpi, format=ext, bbox_inches="tight")
+        _quarto_inline.write_output("PLOT", plot_file, cell_id)
+    plt.close("all")
+
+
+def _quarto_eval_cell(code_text, cell_id, fig={"width": 7, "height": 5, "dpi": 96, "format": "png"}):
+    _quarto_inline.current_cell = cell_id
+    _quarto_inline.write_output("CELL_START", "", cell_id)
+    try:
+        tree = _quarto_ast.parse(code_text, "<cell>", "exec")
+        # Like Jupyter, only a trailing expression is displayed
+        last = tree.body[-1] if tree.body and isinstance(tree.body[-1], _quarto_ast.Expr) else None
+        for node in (tree.body[:-1] if last is not None else tree.body):
+            _quarto_apply_figure_size(fig)
+            _quarto_run(_quarto_ast.Module([node], type_ignores=[]), "exec", cell_id)
+        if last is not None:
+            _quarto_apply_figure_size(fig)
+            value = _quarto_run(_quarto_ast.Expression(last.value), "eval", cell_id)
+            _quarto_display(value, cell_id)
+    except SyntaxError:
+        message = "".join(_quarto_traceback.format_exception_only(*_quarto_sys.exc_info()[:2]))
+        _quarto_inline.write_output("ERROR", message.rstrip("\\n"), cell_id)
+        print(message, file=_quarto_sys.stderr)
+    except Exception:
+        etype, value, tb = _quarto_sys.exc_info()
+        # Drop the wrapper frames so the traceback starts in the cell
+        while tb is not None and tb.tb_frame.f_code.co_filename != "<cell>":
+            tb = tb.tb_next
+        message = "".join(_quarto_traceback.format_exception(etype, value, tb))
+        _quarto_inline.write_output("ERROR", message.rstrip("\\n"), cell_id)
+        print(message, file=_quarto_sys.stderr)
+    except KeyboardInterrupt:
+        _quarto_inline.write_output("INTERRUPTED", "Execution interrupted", cell_id)
+        print("KeyboardInterrupt", file=_quarto_sys.stderr)
+    finally:
+        try:
+            _quarto_flush_figures(cell_id, fig)
+        except Exception as e:
+            _quarto_inline.write_output("ERROR", "Failed to save figure: %s" % e, cell_id)
+        _quarto_inline.write_output("CELL_END", "", cell_id)
+        _quarto_inline.current_cell = "none"
+
+
+print("Quarto Inline ready")
+# Signal that setup is complete
+with open(${JSON.stringify(readyFile)}, "w") as _quarto_f:
+    _quarto_f.write('{"protocol":${PROTOCOL_VERSION},"transport":"file"}')
+`;
+    }
+}
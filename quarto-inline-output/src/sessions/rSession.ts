@@ -0,0 +1,445 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BaseSession, sessionOutputDir } from './baseSession';
+import { ExecutionOptions } from '../chunkParser';
+import { SocketEndpoint, TransportKind } from '../outputTransport';
+import { PROTOCOL_VERSION } from '../protocol';
+import { LaunchProfile, getLaunchProfile, mapPath } from './launchProfile';
+import { RInterpreter, defaultRPath } from './interpreters';
+
+export class RSession extends BaseSession {
+    // Launch profile of the current terminal, read when it was created
+    private profile: LaunchProfile | undefined;
+
+    constructor(sessionName: string, private interpreter?: RInterpreter) {
+        super(sessionName, sessionOutputDir('r', sessionName));
+    }
+
+    // The interpreter picked for the session, undefined for the default R
+    public getInterpreter(): RInterpreter | undefined {
+        return this.interpreter;
+    }
+
+    getLanguage(): string {
+        return 'r';
+    }
+
+    protected getTerminalOptions(): vscode.TerminalOptions {
+        this.profile = getLaunchProfile();
+        if (this.profile) {
+            return {
+                name: `R (${this.sessionName})`,
+                shellPath: this.profile.command,
+                shellArgs: this.profile.args,
+                env: this.profile.env,
+                cwd: this.profile.cwd
+            };
+        }
+
+        return {
+            name: `R (${this.sessionName})`,
+            shellPath: this.interpreter?.command ?? defaultRPath(),
+            env: this.interpreter?.env
+        };
+    }
+
+    protected toSessionPath(hostPath: string): string {
+        return mapPath(hostPath, this.profile?.pathMappings ?? [], 'session');
+    }
+
+    protected toHostPath(sessionPath: string): string {
+        return mapPath(sessionPath, this.profile?.pathMappings ?? [], 'host');
+    }
+
+    // Output comes over a socket, except under radian and launch profiles, which
+    // keep the file transport unless the socket is asked for explicitly: a
+    // container or remote machine usually cannot reach our localhost
+    protected getTransport(): TransportKind {
+        const transport = vscode.workspace.getConfiguration('quarto-inline-output').get<string>('ipcTransport', 'auto');
+        if (transport === 'auto') {
+            const command = this.interpreter?.command ?? defaultRPath();
+            return this.profile || path.basename(command).startsWith('radian') ? 'file' : 'socket';
+        }
+        return transport === 'socket' ? 'socket' : 'file';
+    }
+
+    protected getSetupFileName(): string {
+        return 'quarto_setup.R';
+    }
+
+    protected setupCommand(setupFile: string): string {
+        return `source("${toRPath(setupFile)}")`;
+    }
+
+    protected evalCommand(code: string, cellId: string, options: ExecutionOptions): string {
+        // Escape the code for R string
+        const escapedCode = code.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+        const fig = `list(width = ${options.figWidth}, height = ${options.figHeight}, dpi = ${options.figDpi}, format = "${options.figFormat}")`;
+        return `.quarto_eval_cell("${escapedCode}", "${cellId}", ${fig})`;
+    }
+
+    protected queryCommand(expression: string, queryId: string): string {
+        return `.quarto_inline$query("${queryId}", ${expression})`;
+    }
+
+    protected buildSetupScript(outputDir: string, readyFile: string, socket?: SocketEndpoint): string {
+        const maxRows = vscode.workspace.getConfiguration('quarto-inline-output').get<number>('dataFrameMaxRows', 1000);
+        const renvProject = this.interpreter?.renvProject;
+        return `${renvProject ? `
+# Use the project library of renv.lock, unless the project's .Rprofile already did
+if (!nzchar(Sys.getenv("RENV_PROJECT"))) local({
+  project <- "${toRPath(this.toSessionPath(renvProject))}"
+  if (file.exists(file.path(project, "renv", "activate.R"))) {
+    owd <- setwd(project)
+    on.exit(setwd(owd))
+    source(file.path("renv", "activate.R"))
+  } else if (requireNamespace("renv", quietly = TRUE)) {
+    renv::load(project)
+  } else {
+    warning("renv is not installed: using the default library instead of the project's")
+  }
+})
+` : ''}
+# Sourced again after the ready file went missing: drop the old connection
+if (exists(".quarto_inline") && !is.null(.quarto_inline$connection)) try(close(.quarto_inline$connection), silent = TRUE)
+.quarto_inline <- new.env()
+.quarto_inline$output_dir <- "${toRPath(outputDir)}"
+.quarto_inline$output_file <- file.path(.quarto_inline$output_dir, "output.txt")
+.quarto_inline$plot_dir <- file.path(.quarto_inline$output_dir, "plots")
+dir.create(.quarto_inline$plot_dir, showWarnings = FALSE, recursive = TRUE)
+if (file.exists(.quarto_inline$output_file)) file.remove(.quarto_inline$output_file)
+
+# Output goes over the socket when VS Code opened one, else to the output file
+.quarto_inline$connection <- NULL
+${socket ? `.quarto_inline$connection <- tryCatch(local({
+  con <- socketConnection("127.0.0.1", ${socket.port}, blocking = TRUE, open = "wb", timeout = 5)
+  writeBin(charToRaw("${socket.token}\\n"), con)
+  flush(con)
+  con
+}), error = function(e) NULL, warning = function(w) NULL)` : ''}
+if (is.null(.quarto_inline$connection)) .quarto_inline$connection <- file(.quarto_inline$output_file, open = "ab")
+
+# JSON string literal of each element of x
+.quarto_inline$json_quote <- function(x) {
+  x <- enc2utf8(as.character(x))
+  x <- gsub("\\\\", "\\\\\\\\", x, fixed = TRUE)
+  x <- gsub('"', '\\\\"', x, fixed = TRUE)
+  x <- gsub("\\n", "\\\\n", x, fixed = TRUE)
+  x <- gsub("\\r", "\\\\r", x, fixed = TRUE)
+  x <- gsub("\\t", "\\\\t", x, fixed = TRUE)
+  # Other control characters, e.g. the escapes of coloured output
+  if (any(grepl("[\\001-\\037]", x))) {
+    for (code in setdiff(1:31, c(9, 10, 13))) x <- gsub(intToUtf8(code), sprintf("\\\\u%04x", code), x, fixed = TRUE)
+  }
+  paste0('"', x, '"')
+}
+
+# One JSON message per line after a record separator, numbered so the reader
+# notices lost messages. What a cell prints goes to the same connection
+# between the messages.
+.quarto_inline$seq <- 0L
+.quarto_inline$write_output <- function(type, content, cell_id = "none") {
+  .quarto_inline$seq <- .quarto_inline$seq + 1L
+  line <- paste0('\\x1e{"v":${PROTOCOL_VERSION},"seq":', .quarto_inline$seq, ',"type":"', type, '","cell":', .quarto_inline$json_quote(cell_id),
+    ',"content":', .quarto_inline$json_quote(paste(content, collapse = "")), '}\\n')
+  writeBin(charToRaw(enc2utf8(line)), .quarto_inline$connection)
+  flush(.quarto_inline$connection)
+}
+
+# While a cell runs its stdout is sunk into the connection, and still shown in
+# the terminal. A socket passes it on as it is written; the output file gets it
+# at the next message or the end of the expression.
+.quarto_inline$start_sink <- function() sink(.quarto_inline$connection, split = TRUE)
+
+.quarto_inline$end_sink <- function(depth) {
+  while (sink.number() > depth) sink()
+  flush(.quarto_inline$connection)
+}
+
+# Show in the terminal only, not as printed output of the cell
+.quarto_inline$to_terminal <- function(expr) {
+  sink()
+  on.exit(.quarto_inline$start_sink())
+  invisible(expr)
+}
+
+.quarto_inline$current_cell <- "none"
+
+.quarto_inline$inline_value <- function(x) {
+  cat(paste(format(x), collapse = ", "))
+  invisible(x)
+}
+
+globalCallingHandlers(
+  message = function(m) .quarto_inline$write_output("MESSAGE", trimws(conditionMessage(m)), .quarto_inline$current_cell),
+  warning = function(w) .quarto_inline$write_output("WARNING", trimws(conditionMessage(w)), .quarto_inline$current_cell)
+)
+
+# Plots are taken from the graphics device rather than guessed from the code.
+# Each cell draws on an off-screen device that keeps a display list; the
+# plot.new and grid.newpage hooks mark where a page ends, and every page is
+# written out after the expression that drew on it. A page drawn on again
+# (lines() after plot()) is sent as PLOT_UPDATE and replaces its earlier image.
+.quarto_inline$plots <- NULL
+
+.quarto_inline$open_device <- function(cell_id, fig) {
+  previous <- dev.cur()
+  pdf(NULL, width = fig$width, height = fig$height)
+  dev.control(displaylist = "enable")
+  .quarto_inline$plots <- list(cell_id = cell_id, fig = fig, device = dev.cur(), previous = previous,
+                               drawn = FALSE, page = NULL, shown = FALSE, count = 0)
+}
+
+.quarto_inline$close_device <- function() {
+  p <- .quarto_inline$plots
+  if (is.null(p)) return(invisible())
+  .quarto_inline$flush_plot()
+  if (p$device %in% dev.list()) dev.off(p$device)
+  if (p$previous %in% dev.list()) dev.set(p$previous)
+  .quarto_inline$plots <- NULL
+}
+
+# Replay a recorded page into a file for the figure options; retina PNGs are marked @2x
+.quarto_inline$save_plot <- function(page, p) {
+  fig <- p$fig
+  stem <- file.path(.quarto_inline$plot_dir, paste0("plot_", p$cell_id, "_", format(Sys.time(), "%H%M%OS3"), "_", p$count))
+  if (fig$format == "svg") {
+    plot_file <- paste0(stem, ".svg")
+    svg(plot_file, width = fig$width, height = fig$height)
+  } else {
+    retina <- fig$format == "retina"
+    dpi <- if (retina) fig$dpi * 2 else fig$dpi
+    plot_file <- paste0(stem, if (retina) "@2x" else "", ".png")
+    png(plot_file, width = fig$width * dpi, height = fig$height * dpi, res = dpi)
+  }
+  tryCatch(replayPlot(page), finally = dev.off())
+  plot_file
+}
+
+# Write out the cell device's current page if it changed since it was last written
+.quarto_inline$flush_plot <- function() {
+  p <- .quarto_inline$plots
+  if (is.null(p) || !p$drawn || !(p$device %in% dev.list())) return(invisible())
+  current <- dev.cur()
+  on.exit(if (current %in% dev.list()) dev.set(current))
+  dev.set(p$device)
+  page <- recordPlot()
+  if (identical(page[[1]], p$page[[1]])) return(invisible())
+  p$count <- p$count + 1
+  plot_file <- .quarto_inline$save_plot(page, p)
+  .quarto_inline$write_output(if (p$shown) "PLOT_UPDATE" else "PLOT", plot_file, p$cell_id)
+  p$page <- page
+  p$shown <- TRUE
+  .quarto_inline$plots <- p
+}
+
+# Called before a page starts on any device; only new pages of the cell device count,
+# not further panels of a par(mfrow) layout
+.quarto_inline$new_page <- function(base) {
+  p <- .quarto_inline$plots
+  if (is.null(p) || dev.cur() != p$device) return(invisible())
+  if (p$drawn && base && !par("page")) return(invisible())
+  .quarto_inline$flush_plot()
+  p <- .quarto_inline$plots
+  p$drawn <- TRUE
+  p$page <- NULL
+  p$shown <- FALSE
+  .quarto_inline$plots <- p
+}
+
+# Re-sourcing the setup replaces our hooks instead of adding a second copy
+.quarto_inline$set_hook <- function(name, fun) {
+  hooks <- Filter(function(f) is.null(attr(f, "quarto_inline")), getHook(name))
+  setHook(name, c(hooks, list(structure(fun, quarto_inline = TRUE))), "replace")
+}
+.quarto_inline$set_hook("before.plot.new", function() .quarto_inline$new_page(base = TRUE))
+.quarto_inline$set_hook("before.grid.newpage", function() .quarto_inline$new_page(base = FALSE))
+
+# Data frames are sent as a JSON table (column types, the first max_rows rows and
+# the total row count) with their printed text as a fallback
+.quarto_inline$max_rows <- ${maxRows}
+
+.quarto_inline$json_string <- function(x) {
+  ifelse(is.na(x), "null", .quarto_inline$json_quote(x))
+}
+
+.quarto_inline$json_values <- function(col) {
+  if (is.data.frame(col) || is.matrix(col)) return(rep(.quarto_inline$json_string(paste0("<", class(col)[1], ">")), NROW(col)))
+  if (is.logical(col)) return(ifelse(is.na(col), "null", ifelse(col, "true", "false")))
+  if (is.numeric(col)) return(ifelse(is.finite(col), as.character(col), "null"))
+  if (is.list(col)) col <- vapply(col, function(v) paste(format(v), collapse = ", "), "")
+  .quarto_inline$json_string(col)
+}
+
+.quarto_inline$columns_json <- function(df) {
+  types <- vapply(seq_along(df), function(i) class(df[[i]])[1], "")
+  paste0("[", paste0('{"name":', .quarto_inline$json_string(names(df)), ',"type":', .quarto_inline$json_string(types), '}', collapse = ","), "]")
+}
+
+.quarto_inline$rows_json <- function(shown) {
+  if (nrow(shown) == 0) return("[]")
+  values <- lapply(seq_along(shown), function(i) .quarto_inline$json_values(shown[[i]]))
+  rows <- if (length(values) > 0) do.call(paste, c(values, sep = ",")) else rep("", nrow(shown))
+  paste0("[", paste0("[", rows, "]", collapse = ","), "]")
+}
+
+.quarto_inline$data_frame_json <- function(df, text) {
+  shown <- df[seq_len(min(nrow(df), .quarto_inline$max_rows)), , drop = FALSE]
+  row_names <- if (.row_names_info(df) > 0) paste0("[", paste(.quarto_inline$json_string(rownames(shown)), collapse = ","), "]") else "null"
+  paste0(
+    '{"nrow":', nrow(df),
+    ',"columns":', .quarto_inline$columns_json(df),
+    ',"rowNames":', row_names,
+    ',"rows":', .quarto_inline$rows_json(shown),
+    ',"text":', .quarto_inline$json_string(paste(text, collapse = "\\n")), '}'
+  )
+}
+
+# View() opens the data viewer: the object stays in the session under an id
+# and the viewer fetches one page at a time, filtered and sorted here
+.quarto_inline$views <- new.env()
+.quarto_inline$view_count <- 0
+
+.quarto_inline$view_object <- function(x, title) {
+  x <- as.data.frame(x)
+  .quarto_inline$view_count <- .quarto_inline$view_count + 1
+  id <- paste0("view_", .quarto_inline$view_count)
+  assign(id, list(data = x, key = NULL, rows = seq_len(nrow(x))), envir = .quarto_inline$views)
+  paste0('{"id":', .quarto_inline$json_string(id), ',"title":', .quarto_inline$json_string(title), '}')
+}
+
+.quarto_inline$view_page <- function(id, offset, limit, sort_column = 0, descending = FALSE, filter = "") {
+  view <- get(id, envir = .quarto_inline$views)
+  x <- view$data
+  key <- paste(sort_column, descending, filter)
+  if (!identical(view$key, key)) {
+    rows <- seq_len(nrow(x))
+    if (nzchar(filter) && ncol(x) > 0) {
+      text <- do.call(paste, c(lapply(x, function(col) tolower(as.character(col))), sep = "\\r"))
+      rows <- rows[grepl(tolower(filter), text, fixed = TRUE)]
+    }
+    if (sort_column > 0) {
+      col <- x[[sort_column]][rows]
+      keys <- tryCatch(xtfrm(col), error = function(e) xtfrm(as.character(col)))
+      rows <- rows[order(keys, decreasing = descending, na.last = TRUE)]
+    }
+    view$key <- key
+    view$rows <- rows
+    assign(id, view, envir = .quarto_inline$views)
+  }
+  page <- view$rows[seq_len(max(0, min(limit, length(view$rows) - offset))) + offset]
+  row_names <- if (.row_names_info(x) > 0) rownames(x)[page] else as.character(page)
+  paste0(
+    '{"nrow":', nrow(x),
+    ',"filtered":', length(view$rows),
+    ',"offset":', offset,
+    ',"columns":', .quarto_inline$columns_json(x),
+    ',"rowNames":[', paste(.quarto_inline$json_string(row_names), collapse = ","), ']',
+    ',"rows":', .quarto_inline$rows_json(x[page, , drop = FALSE]), '}'
+  )
+}
+
+.quarto_inline$view_close <- function(id) {
+  if (exists(id, envir = .quarto_inline$views, inherits = FALSE)) rm(list = id, envir = .quarto_inline$views)
+  ""
+}
+
+# Attached ahead of package:utils, like RStudio's tools:rstudio, so View() is
+# replaced without adding anything to the global environment
+if ("tools:quarto_inline" %in% search()) detach("tools:quarto_inline")
+assign("View", function(x, title) {
+  if (missing(title)) title <- deparse(substitute(x))[1]
+  .quarto_inline$write_output("VIEW", .quarto_inline$view_object(x, title), .quarto_inline$current_cell)
+  invisible(x)
+}, envir = attach(NULL, name = "tools:quarto_inline"))
+
+# Memory in use (Mb) after a minor collection, to report what a cell added
+.quarto_inline$memory_used <- function() sum(gc(full = FALSE)[, 2])
+
+# Answers to the extension's queries go to the output file only, not the terminal
+.quarto_inline$query <- function(query_id, expr) {
+  result <- tryCatch(expr, error = function(e) e)
+  if (inherits(result, "error")) .quarto_inline$write_output("ERROR", conditionMessage(result), query_id)
+  else .quarto_inline$write_output("OUTPUT", result, query_id)
+  .quarto_inline$write_output("CELL_END", "", query_id)
+  invisible()
+}
+
+# Objects for the variable explorer: the global environment, or the elements of
+# the list, data frame or environment an expression evaluates to
+.quarto_inline$variables <- function(expr_text = NULL) {
+  if (is.null(expr_text)) {
+    env <- globalenv()
+    items <- vapply(ls(env), function(n) .quarto_inline$describe(n, get(n, envir = env), deparse(as.name(n), backtick = TRUE)), "")
+  } else {
+    value <- eval(parse(text = expr_text), envir = globalenv())
+    if (is.environment(value)) {
+      items <- vapply(ls(value), function(n) .quarto_inline$describe(n, get(n, envir = value), paste0(expr_text, "$", deparse(as.name(n), backtick = TRUE))), "")
+    } else {
+      labels <- names(value)
+      items <- vapply(seq_len(min(length(value), 1000)), function(i) {
+        named <- !is.null(labels) && !is.na(labels[i]) && nzchar(labels[i])
+        child <- paste0(expr_text, "[[", if (named) encodeString(labels[i], quote = '"') else i, "]]")
+        .quarto_inline$describe(if (named) labels[i] else paste0("[[", i, "]]"), value[[i]], child)
+      }, "")
+    }
+  }
+  paste0("[", paste(items, collapse = ","), "]")
+}
+
+.quarto_inline$describe <- function(name, value, expr) {
+  dims <- tryCatch(
+    if (!is.null(dim(value))) paste(dim(value), collapse = " x ")
+    else if (is.environment(value) || is.function(value)) ""
+    else as.character(length(value)),
+    error = function(e) "")
+  size <- tryCatch(format(object.size(value), units = "auto"), error = function(e) "")
+  expandable <- is.environment(value) || (is.list(value) && length(value) > 0)
+  paste0(
+    '{"name":', .quarto_inline$json_string(name),
+    ',"expr":', .quarto_inline$json_string(expr),
+    ',"class":', .quarto_inline$json_string(paste(class(value), collapse = "/")),
+    ',"dims":', .quarto_inline$json_string(dims),
+    ',"size":', .quarto_inline$json_string(size),
+    ',"expandable":', if (expandable) "true" else "false", '}'
+  )
+}
+
+.quarto_eval_cell <- function(code_text, cell_id, fig = list(width = 7, height = 5, dpi = 96, format = "png")) {
+  .quarto_inline$current_cell <- cell_id
+  .quarto_inline$write_output("CELL_START", "", cell_id)
+  started <- proc.time()[["elapsed"]]
+  memory <- .quarto_inline$memory_used()
+  .quarto_inline$open_device(cell_id, fig)
+  depth <- sink.number()
+  .quarto_inline$start_sink()
+  tryCatch({
+    exprs <- parse(text = code_text)
+    for (expr in exprs) {
+      result <- withVisible(eval(expr, envir = globalenv()))
+      if (result$visible && !is.null(result$value)) {
+        if (inherits(result$value, "gt_tbl") && requireNamespace("gt", quietly = TRUE)) { .quarto_inline$write_output("HTML", as.character(gt::as_raw_html(result$value)), cell_id); .quarto_inline$to_terminal(print(result$value)) }
+        else if (inherits(result$value, "htmlwidget") && requireNamespace("htmlwidgets", quietly = TRUE)) { f <- tempfile(fileext = ".html"); htmlwidgets::saveWidget(result$value, f, selfcontained = TRUE); .quarto_inline$write_output("HTML", paste(readLines(f), collapse = "\\n"), cell_id); unlink(f) }
+        else if (is.data.frame(result$value)) { out <- capture.output(print(result$value)); .quarto_inline$write_output("DATAFRAME", .quarto_inline$data_frame_json(result$value, out), cell_id); .quarto_inline$to_terminal(cat(out, sep = "\\n")) }
+        else print(result$value)
+      }
+      flush(.quarto_inline$connection)
+      .quarto_inline$flush_plot()
+    }
+  }, error = function(e) { .quarto_inline$end_sink(depth); .quarto_inline$write_output("ERROR", conditionMessage(e), cell_id); cat("Error:", conditionMessage(e), "\\n") },
+  interrupt = function(i) { .quarto_inline$end_sink(depth); .quarto_inline$write_output("INTERRUPTED", "Execution interrupted", cell_id); cat("Interrupted\\n") },
+  finally = { .quarto_inline$end_sink(depth); .quarto_inline$close_device() })
+  .quarto_inline$write_output("TIMING", sprintf('{"elapsed":%.3f,"memory":%.2f}', proc.time()[["elapsed"]] - started, .quarto_inline$memory_used() - memory), cell_id)
+  .quarto_inline$write_output("CELL_END", "", cell_id)
+  .quarto_inline$current_cell <- "none"
+}
+cat("Quarto Inline ready\\n")
+# Signal that setup is complete
+cat('{"protocol":${PROTOCOL_VERSION},"transport":"', if (inherits(.quarto_inline$connection, "sockconn")) "socket" else "file", '"}', sep = "", file = "${toRPath(readyFile)}")
+`;
+    }
+}
+
+function toRPath(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
@@ -0,0 +1,255 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BaseSession } from './baseSession';
+import { RSession } from './rSession';
+import { PythonSession } from './pythonSession';
+import { RInterpreter } from './interpreters';
+
+// Chunk languages that run in the session of another one
+const SESSION_LANGUAGES: Record<string, string> = { python3: 'python' };
+
+// Every document is bound to a named session. By default each document gets
+// its own; binding several documents to the same name shares one environment.
+export class SessionManager {
+    private sessions: Map<string, Map<string, BaseSession>> = new Map(); // session name -> language -> session
+    private bindings: Map<string, string> = new Map(); // document URI -> session name
+    private interpreters: Map<string, RInterpreter> = new Map(); // session name -> R it runs on
+    private defaultInterpreter: RInterpreter | undefined;
+    private statusBarItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+    private viewEmitter = new vscode.EventEmitter<{ session: BaseSession; request: string }>();
+    private disposeEmitter = new vscode.EventEmitter<string>();
+
+    // View() called in any session
+    public readonly onDidRequestView = this.viewEmitter.event;
+
+    // Fires with the session name when an interpreter of that session was shut down
+    public readonly onDidDisposeSession = this.disposeEmitter.event;
+
+    constructor() {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+        this.statusBarItem.command = 'quarto-inline-output.switchSession';
+
+        this.disposables.push(
+            this.statusBarItem,
+            vscode.window.onDidChangeActiveNotebookEditor(() => this.updateStatusBar()),
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusBar()),
+            vscode.workspace.onDidCloseNotebookDocument(notebook => this.releaseIfClosed(notebook.uri, notebook)),
+            vscode.workspace.onDidCloseTextDocument(document => this.releaseIfClosed(document.uri, document))
+        );
+
+        this.updateStatusBar();
+    }
+
+    public getSessionName(uri: vscode.Uri): string {
+        const key = uri.toString();
+        let name = this.bindings.get(key);
+        if (!name) {
+            name = this.uniqueName(path.basename(uri.fsPath));
+            this.bindings.set(key, name);
+        }
+        return name;
+    }
+
+    public getSession(uri: vscode.Uri, chunkLanguage: string): BaseSession {
+        const language = SESSION_LANGUAGES[chunkLanguage] ?? chunkLanguage;
+        const name = this.getSessionName(uri);
+        let languages = this.sessions.get(name);
+        if (!languages) {
+            languages = new Map();
+            this.sessions.set(name, languages);
+        }
+
+        let session = languages.get(language);
+        if (session) {
+            return session;
+        }
+
+        switch (language) {
+            case 'r':
+                session = new RSession(name, this.interpreters.get(name) ?? this.defaultInterpreter);
+                break;
+            case 'python':
+                session = new PythonSession(name);
+                break;
+            default:
+                throw new Error(`Language ${language} not yet supported`);
+        }
+
+        const created = session;
+        session.onDidRequestView(request => this.viewEmitter.fire({ session: created, request }));
+        languages.set(language, session);
+        this.updateStatusBar();
+        return session;
+    }
+
+    // Sessions already started for the document's binding
+    public getSessions(uri: vscode.Uri): BaseSession[] {
+        return [...(this.sessions.get(this.getSessionName(uri))?.values() ?? [])];
+    }
+
+    public getAllSessions(): BaseSession[] {
+        return [...this.sessions.values()].flatMap(languages => [...languages.values()]);
+    }
+
+    // The Quarto document in the active notebook or text editor
+    public getActiveDocumentUri(): vscode.Uri | undefined {
+        const notebook = vscode.window.activeNotebookEditor?.notebook;
+        if (notebook?.notebookType === 'quarto-notebook') {
+            return notebook.uri;
+        }
+
+        const document = vscode.window.activeTextEditor?.document;
+        if (document?.fileName.endsWith('.qmd')) {
+            return document.uri;
+        }
+
+        return undefined;
+    }
+
+    // R for sessions no notebook picked one for, e.g. when running chunks from the text editor
+    public setDefaultInterpreter(interpreter: RInterpreter | undefined): void {
+        this.defaultInterpreter = interpreter;
+    }
+
+    // Run the document's session on this R from now on. An R session already
+    // running on another one is shut down, to start on the new one when next
+    // used; returns whether that happened.
+    public setInterpreter(uri: vscode.Uri, interpreter: RInterpreter): boolean {
+        const name = this.getSessionName(uri);
+        this.interpreters.set(name, interpreter);
+
+        const languages = this.sessions.get(name);
+        const session = languages?.get('r');
+        // A session started before any kernel was picked runs on the default R
+        if (!(session instanceof RSession) || (session.getInterpreter()?.id ?? 'default') === interpreter.id) {
+            return false;
+        }
+
+        session.dispose();
+        languages!.delete('r');
+        this.disposeEmitter.fire(name);
+        this.updateStatusBar();
+        return true;
+    }
+
+    public bind(uri: vscode.Uri, name: string): void {
+        // A new session runs on the R the document's notebook picked
+        const previous = this.bindings.get(uri.toString());
+        const interpreter = previous && this.interpreters.get(previous);
+        if (interpreter && !this.interpreters.has(name)) {
+            this.interpreters.set(name, interpreter);
+        }
+
+        this.bindings.set(uri.toString(), name);
+        this.releaseUnused();
+        this.updateStatusBar();
+    }
+
+    public async switchSession(uri: vscode.Uri): Promise<void> {
+        const current = this.getSessionName(uri);
+        const newSession = '$(add) New session...';
+
+        const items: vscode.QuickPickItem[] = [...new Set(this.bindings.values())].map(name => ({
+            label: name,
+            description: name === current ? '(current)' : undefined,
+            detail: this.getBoundDocuments(name).join(', ')
+        }));
+        items.push({ label: newSession, alwaysShow: true });
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: `Session for ${path.basename(uri.fsPath)}`
+        });
+        if (!picked || picked.label === current) {
+            return;
+        }
+
+        let name = picked.label;
+        if (name === newSession) {
+            const input = await vscode.window.showInputBox({
+                prompt: 'Name of the new session',
+                value: this.uniqueName(path.basename(uri.fsPath)),
+                validateInput: value => value.trim() ? undefined : 'Enter a session name'
+            });
+            if (!input) {
+                return;
+            }
+            name = input.trim();
+        }
+
+        this.bind(uri, name);
+    }
+
+    // The notebook and the text editor of a document share its session: it is
+    // released once the document is open in neither
+    private releaseIfClosed(uri: vscode.Uri, closed: vscode.NotebookDocument | vscode.TextDocument): void {
+        const key = uri.toString();
+        if (!this.bindings.has(key)) {
+            return;
+        }
+
+        const stillOpen = vscode.workspace.notebookDocuments.some(n => n !== closed && n.uri.toString() === key) ||
+            vscode.workspace.textDocuments.some(d => d !== closed && d.uri.toString() === key);
+        if (!stillOpen) {
+            this.unbind(uri);
+        }
+    }
+
+    private unbind(uri: vscode.Uri): void {
+        this.bindings.delete(uri.toString());
+        this.releaseUnused();
+        this.updateStatusBar();
+    }
+
+    // Shut down sessions no document is bound to anymore
+    private releaseUnused(): void {
+        const bound = new Set(this.bindings.values());
+        for (const [name, languages] of this.sessions) {
+            if (!bound.has(name)) {
+                languages.forEach(session => session.dispose());
+                this.sessions.delete(name);
+                this.interpreters.delete(name);
+                this.disposeEmitter.fire(name);
+            }
+        }
+    }
+
+    private getBoundDocuments(name: string): string[] {
+        return [...this.bindings]
+            .filter(([, bound]) => bound === name)
+            .map(([uri]) => path.basename(vscode.Uri.parse(uri).fsPath));
+    }
+
+    private uniqueName(base: string): string {
+        const used = new Set(this.bindings.values());
+        let name = base;
+        for (let i = 2; used.has(name); i++) {
+            name = `${base} (${i})`;
+        }
+        return name;
+    }
+
+    private updateStatusBar(): void {
+        const uri = this.getActiveDocumentUri();
+        if (!uri) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const name = this.getSessionName(uri);
+        const languages = [...(this.sessions.get(name)?.keys() ?? [])];
+        this.statusBarItem.text = `$(terminal) ${name}`;
+        this.statusBarItem.tooltip = `Quarto session: ${name}` +
+            (languages.length > 0 ? ` (running: ${languages.join(', ')})` : ' (not started)') +
+            '\nClick to switch session';
+        this.statusBarItem.show();
+    }
+
+    public dispose(): void {
+        this.getAllSessions().forEach(session => session.dispose());
+        this.sessions.clear();
+        this.disposables.forEach(d => d.dispose());
+        this.viewEmitter.dispose();
+        this.disposeEmitter.dispose();
+    }
+}
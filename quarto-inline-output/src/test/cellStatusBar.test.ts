@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { CellOutput } from '../outputWatcher';
+import { cellTiming, formatDuration, formatMemory } from '../cellStatusBar';
+
+suite('Cell Status Bar Test Suite', () => {
+    test('uses the timing reported by the session', () => {
+        const outputs: CellOutput[] = [
+            { type: 'OUTPUT', content: '1', cellId: 'cell_1' },
+            { type: 'TIMING', content: '{"elapsed":1.234,"memory":-0.50}', cellId: 'cell_1' }
+        ];
+
+        assert.deepStrictEqual(cellTiming(outputs, 2000, 100), { duration: 1234, endTime: 100, memory: -0.5 });
+    });
+
+    test('falls back to the wall-clock time', () => {
+        assert.deepStrictEqual(cellTiming([], 2000, 100), { duration: 2000, endTime: 100 });
+        assert.deepStrictEqual(
+            cellTiming([{ type: 'TIMING', content: 'garbage', cellId: 'cell_1' }], 2000, 100),
+            { duration: 2000, endTime: 100 }
+        );
+    });
+
+    test('formats durations and memory changes', () => {
+        assert.strictEqual(formatDuration(250), '250ms');
+        assert.strictEqual(formatDuration(1540), '1.5s');
+        assert.strictEqual(formatDuration(125000), '2m 5s');
+        assert.strictEqual(formatMemory(3.25), '+3.3 MB');
+        assert.strictEqual(formatMemory(-1), '−1.0 MB');
+    });
+});
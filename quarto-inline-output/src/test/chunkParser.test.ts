@@ -1,5 +1,8 @@
 import * as assert from 'assert';
-import { parseChunks, CodeChunk } from '../chunkParser';
+import {
+    parseChunks, parseDocument, findInlineExpressions, parseChunkOptions, formatHashPipeOptions,
+    findHeadings, findSection, parseFrontMatterOptions, resolveExecutionOptions, parseYamlOptions
+} from '../chunkParser';
 
 suite('ChunkParser Test Suite', () => {
     test('should parse single R chunk', () => {
@@ -39,4 +42,301 @@ y = 2
         const chunks = parseChunks(content);
         assert.strictEqual(chunks.length, 0);
     });
+
+    test('should parse typed header options', () => {
+        const options = parseChunkOptions('setup, echo=FALSE, fig.width=7.5, fig.cap="A, B", out=c(1, 2)');
+        assert.deepStrictEqual(options, {
+            label: 'setup',
+            echo: false,
+            'fig.width': 7.5,
+            'fig.cap': 'A, B',
+            out: [1, 2]
+        });
+    });
+
+    test('should keep R expressions in options as source', () => {
+        assert.deepStrictEqual(parseChunkOptions('fig.width=w, fig.cap=paste("n =", n), out=c("a", b)'), {
+            'fig.width': { expr: 'w' },
+            'fig.cap': { expr: 'paste("n =", n)' },
+            out: ['a', { expr: 'b' }]
+        });
+        assert.deepStrictEqual(parseYamlOptions(['fig-cap: !expr paste("a", n)', 'label: "!expr x"']), {
+            'fig-cap': { expr: 'paste("a", n)' },
+            label: '!expr x'
+        });
+        assert.deepStrictEqual(formatHashPipeOptions({ 'fig-cap': { expr: 'paste("a", n)' }, label: '!expr x' }), [
+            '#| fig-cap: !expr paste("a", n)',
+            '#| label: "!expr x"'
+        ]);
+        assert.strictEqual(resolveExecutionOptions({ 'fig.cap': { expr: 'cap' } }, {}).figCap, undefined);
+    });
+
+    test('should parse hash-pipe options and strip them from code', () => {
+        const content = `\`\`\`{r}
+#| label: fig-cars
+#| echo: false
+#| fig-width: 6
+#| fig-cap: "Speed: fast"
+#| layout-ncol: [1, 2]
+#| classes:
+#|   - wide
+#|   - dark
+plot(cars)
+#| not an option
+\`\`\`
+`;
+        const chunks = parseChunks(content);
+        assert.strictEqual(chunks.length, 1);
+        assert.deepStrictEqual(chunks[0].options, {
+            label: 'fig-cars',
+            echo: false,
+            'fig-width': 6,
+            'fig-cap': 'Speed: fast',
+            'layout-ncol': [1, 2],
+            classes: ['wide', 'dark']
+        });
+        assert.deepStrictEqual(chunks[0].hashPipeKeys, ['label', 'echo', 'fig-width', 'fig-cap', 'layout-ncol', 'classes']);
+        assert.strictEqual(chunks[0].code, 'plot(cars)\n#| not an option');
+    });
+
+    test('should let hash-pipe options override header options', () => {
+        const content = `\`\`\`{r echo=TRUE, message=FALSE}
+#| echo: false
+x
+\`\`\``;
+        const chunks = parseChunks(content);
+        assert.deepStrictEqual(chunks[0].options, { echo: false, message: false });
+        assert.deepStrictEqual(chunks[0].hashPipeKeys, ['echo']);
+    });
+
+    test('should format hash-pipe options as YAML', () => {
+        const lines = formatHashPipeOptions({ echo: false, label: 'fig-1', cap: 'a: b', n: 3, tags: ['x', 'true'] });
+        assert.deepStrictEqual(lines, [
+            '#| echo: false',
+            '#| label: fig-1',
+            '#| cap: "a: b"',
+            '#| n: 3',
+            '#| tags: [x, "true"]'
+        ]);
+    });
+
+    test('should require a matching closing fence', () => {
+        const content = `\`\`\`\`{r}
+x <- "\`\`\`"
+\`\`\`
+y <- 1
+\`\`\`\`
+
+~~~{r}
+\`\`\`
+~~~
+`;
+        const chunks = parseChunks(content);
+        assert.strictEqual(chunks.length, 2);
+        assert.strictEqual(chunks[0].code, 'x <- "```"\n```\ny <- 1');
+        assert.strictEqual(chunks[0].fence, '````');
+        assert.strictEqual(chunks[0].endLine, 4);
+        assert.strictEqual(chunks[1].code, '```');
+        assert.strictEqual(chunks[1].fence, '~~~');
+    });
+
+    test('should parse indented fences and strip their indentation', () => {
+        const content = `1. Item
+
+   \`\`\`{r}
+   x <- 1
+     y <- 2
+   \`\`\`
+`;
+        const chunks = parseChunks(content);
+        assert.strictEqual(chunks.length, 1);
+        assert.strictEqual(chunks[0].indent, 3);
+        assert.strictEqual(chunks[0].code, 'x <- 1\n  y <- 2');
+    });
+
+    test('should accept comma after language and dotted or dashed languages', () => {
+        const content = `\`\`\`{r, echo=FALSE}
+x
+\`\`\`
+
+\`\`\`{python3 my-label}
+y
+\`\`\`
+
+\`\`\`{ojs}
+z
+\`\`\`
+`;
+        const chunks = parseChunks(content);
+        assert.deepStrictEqual(chunks.map(c => c.language), ['r', 'python3', 'ojs']);
+        assert.deepStrictEqual(chunks[0].options, { echo: false });
+        assert.deepStrictEqual(chunks[1].options, { label: 'my-label' });
+    });
+
+    test('should skip display-only code blocks', () => {
+        const content = `\`\`\`r
+x <- 1
+\`\`\`
+
+\`\`\`{.r}
+y <- 2
+\`\`\`
+
+\`\`\`\`markdown
+\`\`\`{r}
+z <- 3
+\`\`\`
+\`\`\`\`
+`;
+        const chunks = parseChunks(content);
+        assert.strictEqual(chunks.length, 0);
+    });
+
+    test('should report unterminated chunks as diagnostics', () => {
+        const content = `\`\`\`{r}
+x <- 1
+\`\`\`
+
+\`\`\`{r}
+y <- 2
+`;
+        const result = parseDocument(content);
+        assert.strictEqual(result.chunks.length, 1);
+        assert.strictEqual(result.diagnostics.length, 1);
+        assert.strictEqual(result.diagnostics[0].line, 4);
+        assert.strictEqual(result.diagnostics[0].severity, 'error');
+    });
+
+    test('should find inline R expressions outside code blocks', () => {
+        const content = `The data has \`r nrow(df)\` rows and \`{r} ncol(df)\` columns.
+Plain \`code\` stays, \`\`r \`x\` + 1\`\` is evaluated.
+
+\`\`\`{r}
+x <- "\`r not_inline\`"
+\`\`\`
+
+\`\`\`markdown
+\`r also_not_inline\`
+\`\`\`
+`;
+        const expressions = findInlineExpressions(content);
+        assert.deepStrictEqual(expressions.map(e => e.code), ['nrow(df)', 'ncol(df)', '`x` + 1']);
+        assert.strictEqual(expressions[0].line, 0);
+        assert.strictEqual(content.split('\n')[0].slice(expressions[0].start, expressions[0].end), '`r nrow(df)`');
+    });
+
+    test('should find headings outside code blocks and front matter', () => {
+        const content = `---
+# a YAML comment
+title: Test
+---
+
+# Intro
+
+\`\`\`{r}
+# an R comment
+\`\`\`
+
+## Details ##
+#hashtag
+`;
+        const headings = findHeadings(content);
+        assert.deepStrictEqual(headings, [
+            { line: 5, level: 1, text: 'Intro' },
+            { line: 11, level: 2, text: 'Details' }
+        ]);
+    });
+
+    test('should find the section around a line', () => {
+        const headings = [
+            { line: 2, level: 1, text: 'A' },
+            { line: 5, level: 2, text: 'A.1' },
+            { line: 9, level: 1, text: 'B' }
+        ];
+        assert.deepStrictEqual(findSection(headings, 0), { start: 0, end: 2 });
+        assert.deepStrictEqual(findSection(headings, 3), { start: 2, end: 9 });
+        assert.deepStrictEqual(findSection(headings, 6), { start: 5, end: 9 });
+        assert.deepStrictEqual(findSection(headings, 12), { start: 9, end: Infinity });
+    });
+
+    test('should parse documents with CRLF line endings', () => {
+        const content = [
+            '---', 'execute:', '  echo: false', '---', '',
+            '## Results', '',
+            '```{r, fig.width=5}', '#| label: fig-a', '#| warning: false', 'x <- 1', 'x', '```',
+            'Inline `r x`.', ''
+        ].join('\r\n');
+
+        const { chunks, diagnostics } = parseDocument(content);
+        assert.deepStrictEqual(diagnostics, []);
+        assert.strictEqual(chunks.length, 1);
+        assert.strictEqual(chunks[0].code, 'x <- 1\nx');
+        assert.strictEqual(chunks[0].startLine, 7);
+        assert.strictEqual(chunks[0].endLine, 12);
+        assert.deepStrictEqual(chunks[0].options, { 'fig.width': 5, label: 'fig-a', warning: false });
+        assert.deepStrictEqual(parseFrontMatterOptions(content), { echo: false });
+        assert.deepStrictEqual(findHeadings(content), [{ line: 5, level: 2, text: 'Results' }]);
+        assert.deepStrictEqual(findInlineExpressions(content).map(e => e.code), ['x']);
+    });
+
+    test('should return only the options the front matter sets', () => {
+        const content = `---
+title: Test
+execute:
+  warning: false
+  error: true
+---
+`;
+        assert.deepStrictEqual(parseFrontMatterOptions(content), { warning: false, error: true });
+        assert.deepStrictEqual(parseFrontMatterOptions('# No front matter'), {});
+    });
+
+    test('should let chunk options override document options', () => {
+        const documentOptions = parseFrontMatterOptions(`---
+echo: false
+execute:
+  message: false
+  output: asis
+---
+`);
+        assert.deepStrictEqual(documentOptions, { echo: false, message: false, output: 'asis' });
+
+        const header = parseChunkOptions("setup, eval=FALSE, results='hide', message=TRUE");
+        assert.deepStrictEqual(resolveExecutionOptions(header, documentOptions), {
+            eval: false,
+            echo: false,
+            include: true,
+            output: 'asis',
+            results: 'hide',
+            message: true,
+            warning: true,
+            error: false,
+            figWidth: 7,
+            figHeight: 5,
+            figDpi: 96,
+            figFormat: 'png'
+        });
+
+        // knitr expression indices still mean "evaluate"
+        assert.strictEqual(resolveExecutionOptions({ eval: [1, 2], error: 'yes' }, {}).eval, true);
+        assert.strictEqual(resolveExecutionOptions({ results: false }, {}).results, 'hide');
+    });
+
+    test('should read figure options in Quarto and knitr style', () => {
+        const documentOptions = parseFrontMatterOptions(`---
+format:
+  html:
+    fig-width: 6
+    fig-format: svg
+---
+`);
+        assert.deepStrictEqual(documentOptions, { figWidth: 6, figFormat: 'svg' });
+
+        const options = resolveExecutionOptions(parseChunkOptions("fig.height=3, dpi=150, fig.cap='A plot'"), documentOptions);
+        assert.strictEqual(options.figWidth, 6);
+        assert.strictEqual(options.figHeight, 3);
+        assert.strictEqual(options.figDpi, 150);
+        assert.strictEqual(options.figFormat, 'svg');
+        assert.strictEqual(options.figCap, 'A plot');
+    });
 });
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { shiftLine, summarizeOutputs } from '../decorationManager';
+import { CellOutput } from '../outputWatcher';
+
+function change(startLine: number, startCharacter: number, endLine: number, endCharacter: number, text: string) {
+    return {
+        range: { start: { line: startLine, character: startCharacter }, end: { line: endLine, character: endCharacter } },
+        text
+    };
+}
+
+function output(type: CellOutput['type'], content: string): CellOutput {
+    return { type, content, cellId: '' };
+}
+
+suite('Decoration Manager Test Suite', () => {
+    test('moves outputs with lines added or removed above them', () => {
+        assert.strictEqual(shiftLine(10, change(2, 0, 2, 0, 'a\nb\n')), 12);
+        assert.strictEqual(shiftLine(10, change(2, 3, 5, 1, '')), 7);
+        assert.strictEqual(shiftLine(10, change(9, 4, 9, 4, '\n')), 11);
+        // A line inserted right before the closing fence
+        assert.strictEqual(shiftLine(10, change(10, 0, 10, 0, 'x <- 1\n')), 11);
+    });
+
+    test('keeps outputs in place for edits on or below their line', () => {
+        assert.strictEqual(shiftLine(10, change(10, 3, 10, 3, '\n\n')), 10);
+        assert.strictEqual(shiftLine(10, change(12, 0, 20, 0, '')), 10);
+    });
+
+    test('drops outputs whose line was deleted', () => {
+        assert.strictEqual(shiftLine(10, change(8, 0, 11, 0, '')), undefined);
+        assert.strictEqual(shiftLine(10, change(9, 2, 10, 3, '')), undefined);
+    });
+
+    test('summarizes outputs on one line', () => {
+        assert.deepStrictEqual(summarizeOutputs([output('OUTPUT', '[1] 42\n')]), { text: '→ [1] 42', isError: false });
+        assert.deepStrictEqual(
+            summarizeOutputs([output('OUTPUT', 'a\nb\n'), output('MESSAGE', 'c'), output('PLOT', '/tmp/p.png')]),
+            { text: '→ a … (3 lines)  📊 1 plot(s)', isError: false }
+        );
+        assert.deepStrictEqual(
+            summarizeOutputs([output('OUTPUT', '[1] 1'), output('ERROR', 'Error: object \'y\' not found\nExecution halted')]),
+            { text: '⚠ Error: object \'y\' not found', isError: true }
+        );
+        assert.deepStrictEqual(summarizeOutputs([]), { text: '✓ No output', isError: false });
+    });
+});
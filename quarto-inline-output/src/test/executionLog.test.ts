@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { ExecutionEntry, buildScript } from '../executionLog';
+
+suite('Execution Log Test Suite', () => {
+    const entry = (order: number, code: string, extra: Partial<ExecutionEntry> = {}): ExecutionEntry => ({
+        order,
+        language: 'r',
+        code,
+        timestamp: new Date(2025, 0, 2, 3, 4, 5).getTime(),
+        success: true,
+        ...extra
+    });
+
+    test('replays R code in run order', () => {
+        const script = buildScript('analysis.qmd', [
+            entry(1, 'x <- 1\n', { label: 'setup' }),
+            entry(2, 'y <- x + 1', { cellIndex: 2, success: false }),
+            entry(3, 'print(1)', { language: 'python' }),
+            entry(4, 'z <- y', { success: undefined })
+        ], new Date(2025, 0, 2, 4, 0, 0).getTime());
+
+        assert.strictEqual(script, [
+            '# Code executed in the session of analysis.qmd, in run order',
+            '# Exported 2025-01-02 04:00:00',
+            '',
+            '# ---- [1] setup, 2025-01-02 03:04:05 ----',
+            'x <- 1',
+            '',
+            '# ---- [2] cell 3, 2025-01-02 03:04:05 (failed) ----',
+            'y <- x + 1',
+            '',
+            '# ---- [3] chunk, 2025-01-02 03:04:05 ----',
+            '# python code not included',
+            '',
+            '# ---- [4] chunk, 2025-01-02 03:04:05 (interrupted) ----',
+            'z <- y',
+            ''
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { discoverInterpreters, interpreterLabel } from '../sessions/interpreters';
+
+suite('Interpreters Test Suite', () => {
+    let dir: string;
+    let originalPath: string | undefined;
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quarto-inline-interpreters-'));
+        originalPath = process.env.PATH;
+    });
+
+    teardown(() => {
+        process.env.PATH = originalPath;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('labels interpreters with version and variant', () => {
+        assert.strictEqual(interpreterLabel({ id: 'default', description: '', command: 'R' }), 'R');
+        assert.strictEqual(interpreterLabel({ id: 'renv', description: '', command: 'R', version: '4.3.2', variant: 'renv' }), 'R 4.3.2 (renv)');
+    });
+
+    test('finds R on the PATH and the renv library of the project', async function () {
+        if (process.platform === 'win32') {
+            this.skip();
+        }
+
+        const bin = path.join(dir, 'bin');
+        fs.mkdirSync(bin);
+        fs.writeFileSync(path.join(bin, 'R'), '#!/bin/sh\necho "R version 4.3.2 (2023-10-31) -- \\"Eye Holes\\""\n', { mode: 0o755 });
+        fs.writeFileSync(path.join(dir, 'renv.lock'), JSON.stringify({ R: { Version: '4.3.2' } }));
+        process.env.PATH = [bin, originalPath].join(path.delimiter);
+
+        const interpreters = await discoverInterpreters(dir);
+
+        // Either as the default R or as another installation, depending on the machine
+        assert.ok(interpreters.some(interpreter => interpreter.id !== 'renv' && interpreter.version === '4.3.2'));
+
+        const renv = interpreters.find(interpreter => interpreter.id === 'renv');
+        assert.strictEqual(renv?.renvProject, dir);
+        assert.strictEqual(renv?.version, '4.3.2');
+        assert.strictEqual(interpreterLabel(renv!), 'R 4.3.2 (renv)');
+    });
+});
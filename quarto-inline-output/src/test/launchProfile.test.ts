@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { mapPath } from '../sessions/launchProfile';
+
+suite('Launch Profile Test Suite', () => {
+    const mappings = [
+        { host: '/tmp/quarto-inline/', session: '/quarto-inline' },
+        { host: '/home/me/project', session: '/work' },
+        { host: '/home/me/project/data', session: '/data' }
+    ];
+
+    test('maps paths between host and session', () => {
+        assert.strictEqual(mapPath('/tmp/quarto-inline/r-a-1-x/ready', mappings, 'session'), '/quarto-inline/r-a-1-x/ready');
+        assert.strictEqual(mapPath('/quarto-inline/r-a-1-x/plots/plot_1.png', mappings, 'host'), '/tmp/quarto-inline/r-a-1-x/plots/plot_1.png');
+        assert.strictEqual(mapPath('/work', mappings, 'host'), '/home/me/project');
+    });
+
+    test('uses the longest matching prefix on path boundaries', () => {
+        assert.strictEqual(mapPath('/home/me/project/data/x.csv', mappings, 'session'), '/data/x.csv');
+        assert.strictEqual(mapPath('/home/me/project2/x.csv', mappings, 'session'), '/home/me/project2/x.csv');
+        assert.strictEqual(mapPath('/elsewhere/plot.png', mappings, 'host'), '/elsewhere/plot.png');
+    });
+
+    test('converts separators between Windows and POSIX sides', () => {
+        const windows = [{ host: 'C:\\Users\\me\\AppData\\Local\\Temp\\quarto-inline', session: '/quarto-inline' }];
+        assert.strictEqual(
+            mapPath('C:\\Users\\me\\AppData\\Local\\Temp\\quarto-inline\\r-a\\ready', windows, 'session'),
+            '/quarto-inline/r-a/ready'
+        );
+        assert.strictEqual(
+            mapPath('/quarto-inline/r-a/plots/p.png', windows, 'host'),
+            'C:\\Users\\me\\AppData\\Local\\Temp\\quarto-inline\\r-a\\plots\\p.png'
+        );
+    });
+});
@@ -107,4 +107,41 @@ x <- 1
         assert.ok(result.includes('echo=FALSE'));
         assert.ok(result.includes('warning=FALSE'));
     });
+
+    test('round-trip preserves hash-pipe options', async () => {
+        const qmdContent = `\`\`\`{r include=FALSE}
+#| label: fig-cars
+#| echo: false
+plot(cars)
+\`\`\``;
+
+        const data = Buffer.from(qmdContent, 'utf-8');
+        const token = new vscode.CancellationTokenSource().token;
+
+        const notebook = await serializer.deserializeNotebook(data, token);
+        assert.strictEqual(notebook.cells[0].value, 'plot(cars)');
+        assert.strictEqual(notebook.cells[0].metadata?.chunkOptions.echo, false);
+
+        const serialized = await serializer.serializeNotebook(notebook, token);
+        const result = Buffer.from(serialized).toString('utf-8');
+
+        assert.strictEqual(result, qmdContent);
+    });
+
+    test('round-trip preserves fence style and indentation', async () => {
+        const qmdContent = `- Item
+
+  ~~~~{r}
+  x <- "\`\`\`"
+  ~~~~`;
+
+        const data = Buffer.from(qmdContent, 'utf-8');
+        const token = new vscode.CancellationTokenSource().token;
+
+        const notebook = await serializer.deserializeNotebook(data, token);
+        const serialized = await serializer.serializeNotebook(notebook, token);
+        const result = Buffer.from(serialized).toString('utf-8');
+
+        assert.strictEqual(result, qmdContent);
+    });
 });
@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CACHE_METADATA_KEY, OutputCache, hashSource, markSource } from '../outputCache';
+
+interface FakeCell {
+    kind: vscode.NotebookCellKind;
+    document: { languageId: string; getText(): string };
+    metadata: Record<string, any>;
+    outputs: vscode.NotebookCellOutput[];
+}
+
+function codeCell(source: string, label?: string): FakeCell {
+    const cell: FakeCell = {
+        kind: vscode.NotebookCellKind.Code,
+        document: { languageId: 'r', getText: () => source },
+        metadata: label ? { chunkOptions: { label } } : {},
+        outputs: []
+    };
+    return cell;
+}
+
+function notebookOf(file: string, cells: FakeCell[]): vscode.NotebookDocument {
+    return { uri: vscode.Uri.file(file), getCells: () => cells } as unknown as vscode.NotebookDocument;
+}
+
+// What a run leaves on the cell: outputs marked with the source they came from
+function run(cell: FakeCell, text: string): void {
+    cell.outputs = markSource([
+        new vscode.NotebookCellOutput([vscode.NotebookCellOutputItem.text(text)])
+    ], hashSource(cell as unknown as vscode.NotebookCell));
+}
+
+function outputText(output: vscode.NotebookCellOutput): string {
+    return Buffer.from(output.items[0].data).toString('utf-8');
+}
+
+suite('Output Cache Test Suite', () => {
+    let dir: string;
+    let file: string;
+    const cache = new OutputCache();
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quarto-inline-cache-'));
+        file = path.join(dir, 'doc.qmd');
+    });
+
+    teardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('saves outputs and restores them for unchanged cells', () => {
+        const first = codeCell('x <- 1\nx', 'first');
+        const second = codeCell('y');
+        run(first, '[1] 1');
+        run(second, '[1] 2');
+        cache.save(notebookOf(file, [first, second]));
+
+        assert.ok(fs.existsSync(cache.getCachePath(vscode.Uri.file(file))));
+
+        const restored = cache.load(notebookOf(file, [codeCell('x <- 1\nx', 'first'), codeCell('y')]));
+        assert.deepStrictEqual(restored.map(r => r.stale), [false, false]);
+        assert.deepStrictEqual(restored.map(r => outputText(r.outputs[0])), ['[1] 1', '[1] 2']);
+        assert.ok(restored[0].outputs[0].metadata?.[CACHE_METADATA_KEY]?.restored);
+    });
+
+    test('marks outputs stale when the cell changed after it ran', () => {
+        const cell = codeCell('x <- 1', 'a');
+        run(cell, 'old');
+        // Edited but not run again before saving
+        cell.document = { languageId: 'r', getText: () => 'x <- 2' };
+        cache.save(notebookOf(file, [cell]));
+
+        const restored = cache.load(notebookOf(file, [codeCell('x <- 2', 'a')]));
+        assert.strictEqual(restored.length, 1);
+        assert.strictEqual(restored[0].stale, true);
+        assert.ok(outputText(restored[0].outputs[0]).includes('Stale output'));
+        assert.strictEqual(outputText(restored[0].outputs[1]), 'old');
+    });
+
+    test('keeps the original source hash when stale outputs are saved again', () => {
+        const cell = codeCell('x <- 1', 'a');
+        run(cell, 'old');
+        cache.save(notebookOf(file, [cell]));
+
+        const reopened = codeCell('x <- 2', 'a');
+        reopened.outputs = cache.load(notebookOf(file, [reopened]))[0].outputs;
+        cache.save(notebookOf(file, [reopened]));
+
+        // Still stale for the edited source, fresh for the one that produced it
+        assert.strictEqual(cache.load(notebookOf(file, [codeCell('x <- 2', 'a')]))[0].stale, true);
+        assert.strictEqual(cache.load(notebookOf(file, [codeCell('x <- 1', 'a')]))[0].stale, false);
+    });
+
+    test('does not cache outputs without a source hash', () => {
+        const cell = codeCell('x');
+        cell.outputs = [new vscode.NotebookCellOutput([vscode.NotebookCellOutputItem.text('unknown')])];
+        cache.save(notebookOf(file, [cell]));
+
+        assert.ok(!fs.existsSync(cache.getCachePath(vscode.Uri.file(file))));
+        assert.deepStrictEqual(cache.load(notebookOf(file, [codeCell('x')])), []);
+    });
+});
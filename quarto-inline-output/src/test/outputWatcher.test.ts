@@ -0,0 +1,279 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as net from 'net';
+import { OutputWatcher, CellOutput, DATA_FRAME_MIME, visibleOutputs, cellOutputsToNotebookOutput } from '../outputWatcher';
+import { resolveExecutionOptions } from '../chunkParser';
+import { PROTOCOL_VERSION } from '../protocol';
+
+suite('OutputWatcher Test Suite', () => {
+    let outputDir: string;
+    let watcher: OutputWatcher;
+
+    let seq = 0;
+
+    function message(type: string, content: string, cellId = 'cell_1'): string {
+        return '\x1e' + JSON.stringify({ v: PROTOCOL_VERSION, seq: ++seq, type, cell: cellId, content }) + '\n';
+    }
+
+    function write(type: string, content: string, cellId = 'cell_1') {
+        fs.appendFileSync(path.join(outputDir, 'output.txt'), message(type, content, cellId));
+    }
+
+    // Text the running cell prints, between the messages
+    function print(text: string) {
+        fs.appendFileSync(path.join(outputDir, 'output.txt'), text);
+    }
+
+    function tick(): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, 250));
+    }
+
+    setup(() => {
+        outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quarto-inline-test-'));
+        seq = 0;
+        watcher = new OutputWatcher(outputDir);
+        watcher.start();
+    });
+
+    teardown(() => {
+        watcher.stop();
+        fs.rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    test('streams outputs before the cell ends', async () => {
+        const streamed: CellOutput[] = [];
+        const result = watcher.waitForCell('cell_1', undefined, output => streamed.push(output));
+
+        write('CELL_START', '');
+        write('OUTPUT', 'step 1');
+        await tick();
+        assert.deepStrictEqual(streamed.map(o => o.content), ['step 1']);
+
+        write('MESSAGE', 'halfway');
+        write('OUTPUT', 'step 2');
+        write('CELL_END', '');
+
+        const outputs = await result;
+        assert.deepStrictEqual(streamed, outputs);
+        assert.deepStrictEqual(outputs.map(o => o.type), ['OUTPUT', 'MESSAGE', 'OUTPUT']);
+    });
+
+    test('streams printed text before the cell ends and joins it in the result', async () => {
+        const streamed: CellOutput[] = [];
+        const result = watcher.waitForCell('cell_1', { message: false }, output => streamed.push(output));
+
+        write('CELL_START', '');
+        print('Iteration 1\n');
+        await tick();
+        assert.deepStrictEqual(streamed.map(o => o.content), ['Iteration 1\n']);
+
+        print('Iteration 2\n');
+        write('MESSAGE', 'hidden');
+        print('Fitted\n');
+        write('WARNING', 'converged slowly');
+        print('[1] 42\n');
+        write('CELL_END', '');
+
+        const outputs = await result;
+        assert.deepStrictEqual(outputs.map(o => `${o.type} ${o.content}`), [
+            'OUTPUT Iteration 1\nIteration 2\nFitted',
+            'WARNING converged slowly',
+            'OUTPUT [1] 42'
+        ]);
+    });
+
+    test('does not stream outputs hidden by the options', async () => {
+        const streamed: CellOutput[] = [];
+        const result = watcher.waitForCell('cell_1', { message: false }, output => streamed.push(output));
+
+        write('CELL_START', '');
+        write('MESSAGE', 'hidden');
+        write('OUTPUT', 'shown');
+        write('CELL_END', '');
+
+        await result;
+        assert.deepStrictEqual(streamed.map(o => o.content), ['shown']);
+    });
+
+    test('cancelling resolves with the partial output', async () => {
+        const result = watcher.waitForCell('cell_1');
+
+        write('CELL_START', '');
+        write('OUTPUT', 'partial');
+        watcher.cancelCell('cell_1');
+
+        const outputs = await result;
+        assert.deepStrictEqual(outputs.map(o => o.type), ['OUTPUT', 'INTERRUPTED']);
+    });
+
+    test('a plot update replaces the earlier image of the page', async () => {
+        const streamed: CellOutput[] = [];
+        const result = watcher.waitForCell('cell_1', undefined, output => streamed.push(output));
+
+        write('CELL_START', '');
+        write('PLOT', 'page1_1.png');
+        write('OUTPUT', 'summary');
+        write('PLOT_UPDATE', 'page1_2.png');
+        write('PLOT', 'page2_3.png');
+        write('CELL_END', '');
+
+        const outputs = await result;
+        assert.deepStrictEqual(streamed.map(o => o.type), ['PLOT', 'OUTPUT', 'PLOT_UPDATE', 'PLOT']);
+        assert.deepStrictEqual(outputs.map(o => `${o.type} ${o.content}`), [
+            'PLOT page1_2.png',
+            'OUTPUT summary',
+            'PLOT page2_3.png'
+        ]);
+    });
+
+    test('loads plots when they arrive and removes their files', async () => {
+        const plotFile = path.join(outputDir, 'plot_1.png');
+        fs.writeFileSync(plotFile, 'image');
+        const result = watcher.waitForCell('cell_1');
+
+        write('CELL_START', '');
+        write('PLOT', plotFile);
+        write('CELL_END', '');
+
+        const [plot] = await result;
+        assert.strictEqual(plot.data?.toString(), 'image');
+        assert.ok(!fs.existsSync(plotFile));
+        assert.deepStrictEqual(cellOutputsToNotebookOutput([plot])[0].items.map(i => i.mime), ['image/png']);
+    });
+
+    test('passes View() requests on instead of storing them as output', async () => {
+        const events: CellOutput[] = [];
+        watcher.onSessionEvent = event => events.push(event);
+        const result = watcher.waitForCell('cell_1');
+
+        write('CELL_START', '');
+        write('VIEW', '{"id":"view_1","title":"df"}');
+        write('OUTPUT', 'done');
+        write('CELL_END', '');
+
+        const outputs = await result;
+        assert.deepStrictEqual(outputs.map(o => o.type), ['OUTPUT']);
+        assert.deepStrictEqual(events.map(e => e.content), ['{"id":"view_1","title":"df"}']);
+    });
+
+    test('keeps a message split across polls until it is complete', async () => {
+        const result = watcher.waitForCell('cell_1');
+        const file = path.join(outputDir, 'output.txt');
+
+        write('CELL_START', '');
+        const output = message('OUTPUT', ' first half,\n###END###\nsecond half ');
+        fs.appendFileSync(file, output.slice(0, 30));
+        await tick();
+        fs.appendFileSync(file, output.slice(30));
+        write('CELL_END', '');
+
+        const outputs = await result;
+        assert.deepStrictEqual(outputs.map(o => o.content), [' first half,\n###END###\nsecond half ']);
+    });
+
+    test('receives output pushed over the socket', async () => {
+        await watcher.start('socket');
+        const endpoint = watcher.getSocketEndpoint();
+        assert.ok(endpoint);
+
+        const result = watcher.waitForCell('cell_1');
+        const socket = net.connect(endpoint.port, '127.0.0.1');
+        await new Promise(resolve => socket.once('connect', resolve));
+
+        // Writes arrive in arbitrary pieces, even within a character
+        const text = `${endpoint.token}\n` + message('CELL_START', '') + message('OUTPUT', 'naïve') + message('CELL_END', '');
+        const bytes = Buffer.from(text);
+        const split = bytes.indexOf(Buffer.from('ï')) + 1;
+        socket.write(bytes.subarray(0, split));
+        await tick();
+        socket.write(bytes.subarray(split));
+
+        const outputs = await result;
+        socket.destroy();
+        assert.deepStrictEqual(outputs.map(o => o.content), ['naïve']);
+    });
+
+    test('falls back to the output file the interpreter already opened', async () => {
+        await watcher.start('socket');
+
+        // The interpreter could not connect: it opens the output file and keeps appending to it
+        const fd = fs.openSync(path.join(outputDir, 'output.txt'), 'a');
+        fs.writeSync(fd, message('CELL_START', ''));
+        await watcher.start('file', true);
+
+        const result = watcher.waitForCell('cell_1');
+        fs.writeSync(fd, message('OUTPUT', 'after fallback') + message('CELL_END', ''));
+        fs.closeSync(fd);
+
+        const outputs = await result;
+        assert.deepStrictEqual(outputs.map(o => o.content), ['after fallback']);
+    });
+
+    test('rejects socket connections without the token', async () => {
+        await watcher.start('socket');
+        const endpoint = watcher.getSocketEndpoint()!;
+        const result = watcher.waitForCell('cell_1');
+
+        const socket = net.connect(endpoint.port, '127.0.0.1');
+        socket.on('error', () => undefined);
+        socket.write('not the token\n' + message('OUTPUT', 'injected') + message('CELL_END', ''));
+        await new Promise(resolve => socket.once('close', resolve));
+
+        watcher.cancelCell('cell_1');
+        const outputs = await result;
+        assert.deepStrictEqual(outputs.map(o => o.type), ['INTERRUPTED']);
+    });
+
+    test('hides outputs according to include, output and results', () => {
+        const outputs: CellOutput[] = ['OUTPUT', 'MESSAGE', 'PLOT', 'ERROR'].map(type => ({
+            type: type as CellOutput['type'],
+            content: type,
+            cellId: 'cell_1'
+        }));
+        const types = (options: Record<string, any>) =>
+            visibleOutputs(outputs, resolveExecutionOptions(options, {})).map(o => o.type);
+
+        assert.deepStrictEqual(types({}), ['OUTPUT', 'MESSAGE', 'PLOT', 'ERROR']);
+        assert.deepStrictEqual(types({ include: false }), ['ERROR']);
+        assert.deepStrictEqual(types({ output: false }), ['ERROR']);
+        assert.deepStrictEqual(types({ results: 'hide' }), ['MESSAGE', 'PLOT', 'ERROR']);
+    });
+
+    test('emits SVG figures with their captions', () => {
+        const plotFile = path.join(outputDir, 'plot.svg');
+        fs.writeFileSync(plotFile, '<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+        const plot: CellOutput = { type: 'PLOT', content: plotFile, cellId: 'cell_1' };
+
+        const [plain] = cellOutputsToNotebookOutput([plot]);
+        assert.deepStrictEqual(plain.items.map(i => i.mime), ['image/svg+xml']);
+
+        const captioned = cellOutputsToNotebookOutput([plot, plot], { figCap: ['First <A>', 'Second'] });
+        assert.deepStrictEqual(captioned[0].items.map(i => i.mime), ['text/html', 'image/svg+xml']);
+        const html = Buffer.from(captioned[0].items[0].data).toString('utf-8');
+        assert.ok(html.includes('<figcaption>First &lt;A&gt;</figcaption>'));
+        assert.ok(Buffer.from(captioned[1].items[0].data).toString('utf-8').includes('Second'));
+    });
+
+    test('emits data frames as a table with a text fallback', () => {
+        const table = {
+            nrow: 150,
+            columns: [{ name: 'x', type: 'numeric' }, { name: 'g', type: 'factor' }],
+            rowNames: null,
+            rows: [[1.5, 'a'], [null, 'b']],
+            text: '    x g\n1 1.5 a'
+        };
+        const output: CellOutput = { type: 'DATAFRAME', content: JSON.stringify(table), cellId: 'cell_1' };
+
+        const [rich] = cellOutputsToNotebookOutput([output]);
+        assert.deepStrictEqual(rich.items.map(i => i.mime), [DATA_FRAME_MIME, 'text/plain']);
+        assert.deepStrictEqual(JSON.parse(Buffer.from(rich.items[0].data).toString('utf-8')), table);
+        assert.strictEqual(Buffer.from(rich.items[1].data).toString('utf-8'), table.text);
+
+        const [asis] = cellOutputsToNotebookOutput([output], { results: 'asis' });
+        assert.deepStrictEqual(asis.items.map(i => i.mime), ['text/markdown']);
+
+        assert.deepStrictEqual(visibleOutputs([output], resolveExecutionOptions({ results: 'hide' }, {})), []);
+    });
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { MessageParser, PROTOCOL_VERSION, parseReadyFile } from '../protocol';
+
+suite('Protocol Test Suite', () => {
+    const line = (seq: number, type: string, content: string, cell = 'cell_1') =>
+        '\x1e' + JSON.stringify({ v: PROTOCOL_VERSION, seq, type, cell, content }) + '\n';
+
+    test('keeps content, markers and cell ids intact', () => {
+        const parser = new MessageParser();
+        const outputs = parser.push(line(1, 'OUTPUT', '  indented\n###END###\n\n', 'cell#1:2'));
+
+        assert.deepStrictEqual(outputs, [{ type: 'OUTPUT', content: '  indented\n###END###\n\n', cellId: 'cell#1:2' }]);
+    });
+
+    test('buffers a message split across pieces', () => {
+        const parser = new MessageParser();
+        const text = line(1, 'OUTPUT', 'naïve') + line(2, 'CELL_END', '');
+        const split = text.indexOf('\n') + 10;
+
+        assert.deepStrictEqual(parser.push(text.slice(0, 10)), []);
+        assert.deepStrictEqual(parser.push(text.slice(10, split)).map(o => o.content), ['naïve']);
+        assert.deepStrictEqual(parser.push(text.slice(split)).map(o => o.type), ['CELL_END']);
+    });
+
+    test('drops malformed input and recovers at the next message', () => {
+        const parser = new MessageParser();
+        const outputs = parser.push(
+            'not a message\n' +
+            `\x1e{"v":${PROTOCOL_VERSION},"seq":1,"type":"OUTPUT","cell":"cell_1","content":"cut sh` + line(2, 'OUTPUT', 'after the cut') +
+            `\x1e{"v":${PROTOCOL_VERSION},"seq":3,"type":"OUTPUT"}\n` +
+            `\x1e{"v":${PROTOCOL_VERSION + 1},"seq":4,"type":"OUTPUT","cell":"cell_1","content":"newer protocol"}\n` +
+            `\x1e{"v":${PROTOCOL_VERSION},"seq":5,"type":\n` +
+            line(6, 'CELL_END', '')
+        );
+
+        assert.deepStrictEqual(outputs.map(o => `${o.type} ${o.content}`), ['OUTPUT after the cut', 'CELL_END ']);
+    });
+
+    test('passes on text printed between the messages of a cell', () => {
+        const parser = new MessageParser();
+        const outputs = [
+            ...parser.push(line(1, 'CELL_START', '') + 'Iteration 1\nIterat'),
+            ...parser.push('ion 2\n' + line(2, 'WARNING', 'slow') + 'done'),
+            ...parser.push(line(3, 'CELL_END', '') + 'after the cell\n')
+        ];
+
+        assert.deepStrictEqual(outputs.map(o => [o.type, o.content, o.cellId, o.stream]), [
+            ['CELL_START', '', 'cell_1', undefined],
+            ['OUTPUT', 'Iteration 1\nIterat', 'cell_1', true],
+            ['OUTPUT', 'ion 2\n', 'cell_1', true],
+            ['WARNING', 'slow', 'cell_1', undefined],
+            ['OUTPUT', 'done', 'cell_1', true],
+            ['CELL_END', '', 'cell_1', undefined]
+        ]);
+    });
+
+    test('reset drops a partial message', () => {
+        const parser = new MessageParser();
+        parser.push(line(1, 'OUTPUT', 'old').slice(0, 20));
+        parser.reset();
+
+        assert.deepStrictEqual(parser.push(line(1, 'OUTPUT', 'new')).map(o => o.content), ['new']);
+    });
+
+    test('reads the ready file', () => {
+        assert.deepStrictEqual(parseReadyFile('{"protocol":1,"transport":"socket"}'), { protocol: 1, transport: 'socket' });
+        assert.strictEqual(parseReadyFile('ready'), undefined);
+    });
+});
@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { QuartoNotebookSerializer } from '../notebookSerializer';
+
+// out/test -> repository root
+const testDocumentsDir = path.resolve(__dirname, '../../../test-documents');
+
+suite('Lossless Round-Trip', () => {
+    let serializer: QuartoNotebookSerializer;
+    const token = new vscode.CancellationTokenSource().token;
+
+    async function roundTrip(content: string): Promise<string> {
+        const notebook = await serializer.deserializeNotebook(Buffer.from(content, 'utf-8'), token);
+        const serialized = await serializer.serializeNotebook(notebook, token);
+        return Buffer.from(serialized).toString('utf-8');
+    }
+
+    setup(() => {
+        serializer = new QuartoNotebookSerializer();
+    });
+
+    for (const file of fs.readdirSync(testDocumentsDir).filter(f => f.endsWith('.qmd'))) {
+        test(`round-trips ${file} byte for byte`, async () => {
+            const content = fs.readFileSync(path.join(testDocumentsDir, file), 'utf-8');
+            assert.strictEqual(await roundTrip(content), content);
+        });
+    }
+
+    test('keeps irregular whitespace and header formatting', async () => {
+        const content = `
+
+# Title
+
+
+
+\`\`\`{r,echo = FALSE ,  fig.cap='A plot'}
+plot(1)
+\`\`\`
+\`\`\`{r}
+x
+\`\`\`
+
+   \t
+
+\`\`\`{r}
+#|   label:   fig-x
+y
+\`\`\`
+
+
+`;
+        assert.strictEqual(await roundTrip(content), content);
+    });
+
+    test('keeps the original header when only the code changes', async () => {
+        const content = `Text
+
+\`\`\`{r, echo=FALSE}
+#| label: fig-a
+x <- 1
+\`\`\`
+`;
+        const notebook = await serializer.deserializeNotebook(Buffer.from(content, 'utf-8'), token);
+        notebook.cells[1].value = 'x <- 2';
+
+        const result = Buffer.from(await serializer.serializeNotebook(notebook, token)).toString('utf-8');
+        assert.strictEqual(result, content.replace('x <- 1', 'x <- 2'));
+    });
+
+    test('regenerates only the option style that changed', async () => {
+        const content = `\`\`\`{r, echo=FALSE}
+#|   label:   fig-a
+x
+\`\`\``;
+        const notebook = await serializer.deserializeNotebook(Buffer.from(content, 'utf-8'), token);
+        notebook.cells[0].metadata!.chunkOptions = { echo: true, label: 'fig-a' };
+
+        const result = Buffer.from(await serializer.serializeNotebook(notebook, token)).toString('utf-8');
+        assert.strictEqual(result, `\`\`\`{r echo=TRUE}
+#|   label:   fig-a
+x
+\`\`\``);
+    });
+
+    test('round-trips CRLF documents and keeps CRLF in edited chunks', async () => {
+        const content = [
+            '---', 'title: Test', '---', '',
+            '# Title', '',
+            '```{r, echo=FALSE}', '#| label: fig-a', 'x <- 1', '```', '',
+            'Text', ''
+        ].join('\r\n');
+        assert.strictEqual(await roundTrip(content), content);
+
+        const notebook = await serializer.deserializeNotebook(Buffer.from(content, 'utf-8'), token);
+        assert.strictEqual(notebook.cells.filter(cell => cell.kind === vscode.NotebookCellKind.Code).length, 1);
+        notebook.cells[1].value = 'x <- 2\ny <- 3';
+        notebook.cells[1].metadata!.chunkOptions = { echo: true, label: 'fig-a' };
+
+        const result = Buffer.from(await serializer.serializeNotebook(notebook, token)).toString('utf-8');
+        assert.strictEqual(result, content.replace(
+            '```{r, echo=FALSE}\r\n#| label: fig-a\r\nx <- 1',
+            '```{r echo=TRUE}\r\n#| label: fig-a\r\nx <- 2\r\ny <- 3'
+        ));
+    });
+
+    test('writes R expressions in regenerated options back unquoted', async () => {
+        const content = `\`\`\`{r, fig.width=w, fig.cap=paste("n =", n)}
+#| fig-alt: !expr paste("a", n)
+x
+\`\`\``;
+        const notebook = await serializer.deserializeNotebook(Buffer.from(content, 'utf-8'), token);
+        // A fence inside the code makes the header and options be written again
+        notebook.cells[0].value = 'x\n```';
+        notebook.cells[0].metadata!.chunkOptions.echo = false;
+        notebook.cells[0].metadata!.hashPipeKeys.push('echo');
+
+        const result = Buffer.from(await serializer.serializeNotebook(notebook, token)).toString('utf-8');
+        assert.strictEqual(result, `\`\`\`\`{r fig.width=w, fig.cap=paste("n =", n)}
+#| fig-alt: !expr paste("a", n)
+#| echo: false
+x
+\`\`\`
+\`\`\`\``);
+    });
+
+    test('separates newly added cells with a blank line', async () => {
+        const content = `# Title
+`;
+        const notebook = await serializer.deserializeNotebook(Buffer.from(content, 'utf-8'), token);
+        notebook.cells.push(new vscode.NotebookCellData(vscode.NotebookCellKind.Code, 'x', 'r'));
+
+        const result = Buffer.from(await serializer.serializeNotebook(notebook, token)).toString('utf-8');
+        assert.strictEqual(result, `# Title
+
+\`\`\`{r}
+x
+\`\`\`\n`);
+    });
+});
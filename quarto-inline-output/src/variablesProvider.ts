@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { BaseSession } from './sessions/baseSession';
+import { SessionManager } from './sessions/sessionManager';
+import { QuartoNotebookController } from './notebookController';
+import { DataViewer } from './dataViewer';
+
+// An object as described by the R session
+interface Variable {
+    name: string;
+    expr: string; // R expression that evaluates to the object
+    class: string;
+    dims: string;
+    size: string;
+    expandable: boolean;
+}
+
+export class VariableItem extends vscode.TreeItem {
+    constructor(public readonly variable: Variable, public readonly session: BaseSession, topLevel: boolean) {
+        super(
+            variable.name,
+            variable.expandable ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        this.description = [variable.class, variable.dims && `[${variable.dims}]`, variable.size]
+            .filter(Boolean)
+            .join(' ');
+        this.tooltip = `${variable.expr}\n${this.description}`;
+        // Only objects of the global environment can be removed
+        this.contextValue = topLevel ? 'quartoVariable.global' : 'quartoVariable';
+    }
+}
+
+// "Quarto Session" view: the global environment of the active document's R session
+export class VariablesProvider implements vscode.TreeDataProvider<VariableItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<VariableItem | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private treeView: vscode.TreeView<VariableItem>;
+    private documentUri: vscode.Uri | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private sessionManager: SessionManager,
+        private controller: QuartoNotebookController,
+        private dataViewer: DataViewer
+    ) {
+        this.treeView = vscode.window.createTreeView('quarto-inline-output.variables', { treeDataProvider: this });
+
+        this.disposables.push(
+            this.treeView,
+            this._onDidChangeTreeData,
+            controller.onDidChangeSession(() => this.refresh()),
+            vscode.window.onDidChangeActiveNotebookEditor(() => this.updateDocument()),
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateDocument())
+        );
+    }
+
+    // Keep showing the last Quarto document's session while other editors are active
+    private updateDocument(): void {
+        const uri = this.sessionManager.getActiveDocumentUri();
+        if (uri && uri.toString() !== this.documentUri?.toString()) {
+            this.documentUri = uri;
+            this.refresh();
+        }
+    }
+
+    public refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public getTreeItem(element: VariableItem): vscode.TreeItem {
+        return element;
+    }
+
+    public async getChildren(element?: VariableItem): Promise<VariableItem[]> {
+        const session = element?.session ?? this.getActiveSession();
+        if (!session) {
+            this.treeView.message = 'No R session is running for the active Quarto document.';
+            return [];
+        }
+
+        const expr = element ? JSON.stringify(element.variable.expr) : 'NULL';
+        try {
+            const variables: Variable[] = JSON.parse(await session.query(`.quarto_inline$variables(${expr})`));
+            if (!element) {
+                this.treeView.message = variables.length === 0
+                    ? `The global environment of '${session.getSessionName()}' is empty.`
+                    : undefined;
+            }
+            return variables.map(variable => new VariableItem(variable, session, !element));
+        } catch (error) {
+            this.treeView.message = `Could not list objects: ${error instanceof Error ? error.message : String(error)}`;
+            return [];
+        }
+    }
+
+    // Tables (anything with two or more dimensions) open in the data viewer,
+    // other objects print into a read-only editor
+    public async view(item: VariableItem): Promise<void> {
+        try {
+            if (item.variable.dims.includes(' x ')) {
+                await this.dataViewer.open(item.session, item.variable.expr, item.variable.name);
+                return;
+            }
+
+            const printed = await item.session.query(
+                `paste(capture.output(print(${item.variable.expr})), collapse = "\\n")`
+            );
+            const document = await vscode.workspace.openTextDocument({ content: printed });
+            await vscode.window.showTextDocument(document, { preview: true });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not view ${item.variable.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    public async print(item: VariableItem): Promise<void> {
+        await item.session.runInTerminal(`print(${item.variable.expr})`);
+    }
+
+    public async remove(item: VariableItem): Promise<void> {
+        const choice = await vscode.window.showWarningMessage(
+            `Remove '${item.variable.name}' from the session?`,
+            { modal: true },
+            'Remove'
+        );
+        if (choice !== 'Remove') {
+            return;
+        }
+
+        const name = JSON.stringify(item.variable.name);
+        const uri = this.sessionManager.getActiveDocumentUri() ?? this.documentUri;
+        const order = uri && this.controller.nextExecutionOrder(uri);
+        const timestamp = Date.now();
+        let success = true;
+        try {
+            await item.session.query(`{ rm(list = ${name}, envir = globalenv()); "" }`);
+        } catch (error) {
+            success = false;
+            vscode.window.showErrorMessage(`Could not remove ${item.variable.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        // The session no longer has the object, so a replay of the log must not either
+        if (uri && order !== undefined) {
+            this.controller.executionLog.record(uri, {
+                order,
+                language: 'r',
+                code: `rm(list = ${name})`,
+                label: 'removed from the Quarto Session view',
+                timestamp,
+                success
+            });
+        }
+        this.refresh();
+    }
+
+    private getActiveSession(): BaseSession | undefined {
+        const uri = this.sessionManager.getActiveDocumentUri() ?? this.documentUri;
+        return uri && this.sessionManager.getSessions(uri).find(session => session.getLanguage() === 'r');
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}